@@ -1,277 +1,842 @@
-import { useState, useRef, useCallback } from "react";
-import * as XLSX from "xlsx";
-
-type Gender = "М" | "Ж" | "";
-
-interface Contact {
-  fullName: string;
-  firstName: string;
-  gender: Gender;
-  vkId: string;
-  rawLink: string;
-  status: "idle" | "sending" | "sent" | "error";
-  errorMsg?: string;
+import {
+  useState,
+  useRef,
+  useCallback,
+  useMemo,
+  useEffect,
+  useDeferredValue,
+  useEffectEvent,
+  useSyncExternalStore,
+} from "react";
+import { AttachmentsPanel } from "./components/AttachmentsPanel";
+import { CampaignHistory } from "./components/CampaignHistory";
+import { CaptchaModal } from "./components/CaptchaModal";
+import { CommunityPanel } from "./components/CommunityPanel";
+import { DuplicatesPanel } from "./components/DuplicatesPanel";
+import { GenderSource } from "./components/GenderSource";
+import { ImportWizard } from "./components/ImportWizard";
+import { KeyboardBuilder } from "./components/KeyboardBuilder";
+import { OptOutPanel } from "./components/OptOutPanel";
+import { ProfileHint, ProfilePanel } from "./components/ProfilePanel";
+import { RateLimitPanel, type RateLimitConfig } from "./components/RateLimitPanel";
+import { ReplyTrackingBar } from "./components/ReplyTrackingBar";
+import { RunProgress } from "./components/RunProgress";
+import { SchedulePanel } from "./components/SchedulePanel";
+import { SentActionsPanel } from "./components/SentActionsPanel";
+import { TemplateEditor } from "./components/TemplateEditor";
+import { TokenStatus, type TokenState } from "./components/TokenStatus";
+import { TokenVaultPanel } from "./components/TokenVaultPanel";
+import { VariantResults } from "./components/VariantResults";
+import { VariantsPanel } from "./components/VariantsPanel";
+import { VariationPanel } from "./components/VariationPanel";
+import type { Attachment } from "./lib/attachments";
+import { readInBackground } from "./lib/backgroundImport";
+import {
+  createCampaignRef,
+  deleteCampaign,
+  duplicateCampaign,
+  listCampaigns,
+  loadCampaign,
+  saveCampaign,
+  summarizeCampaign,
+  type Campaign,
+  type CampaignRef,
+  type CampaignSummary,
+} from "./lib/campaigns";
+import {
+  DEFAULT_COMMUNITY_SETTINGS,
+  parseGroupId,
+  verifyCommunityToken,
+  type CommunityCheck,
+  type CommunitySettings,
+} from "./lib/community";
+import { needsGenderReview, type Contact, type Gender } from "./lib/contact";
+import { createContactStore, type ContactGroups } from "./lib/contactStore";
+import { deliverMessage } from "./lib/delivery";
+import { findDuplicates, mergeDuplicates } from "./lib/duplicates";
+import { IMPORT_ACCEPT, type ImportSource } from "./lib/importer";
+import { jsonpTransport } from "./lib/jsonp";
+import { keyboardProblem, serializeKeyboard, type MessageKeyboard } from "./lib/keyboard";
+import {
+  addToOptOut,
+  applyOptOut,
+  createOptOutMatcher,
+  entryFromContact,
+  loadOptOut,
+  saveOptOut,
+  type OptOutEntry,
+} from "./lib/optOut";
+import { applyDeliverability, checkDeliverability, detectCommunity } from "./lib/preflight";
+import {
+  acceptProfileField,
+  attachProfiles,
+  fetchProfiles,
+  summarizeDifferences,
+  type ProfileField,
+} from "./lib/profiles";
+import { createRateLimiter, RATE_LIMIT_PRESETS, type RateLimiter } from "./lib/rateLimiter";
+import { applyReplies, fetchReplies, isTrackable, matchesReplyFilter, type ReplyFilter } from "./lib/replies";
+import { buildReport, downloadTable, reportFileName, type ReportFormat } from "./lib/report";
+import {
+  createScheduledRun,
+  DEFAULT_SEND_WINDOW,
+  waitForWindow,
+  windowBlock,
+  type ScheduledRun,
+  type SendWindow,
+} from "./lib/schedule";
+import {
+  createRun,
+  createRunControl,
+  estimateRemainingMs,
+  executeRun,
+  type MessageExtras,
+  type RunControl,
+  type SendOutcome,
+  type SendRun,
+} from "./lib/sendRun";
+import {
+  deleteSentMessages,
+  editSentMessages,
+  sentActionProblem,
+  type SentAction,
+  type SentActionResult,
+} from "./lib/sentActions";
+import { loadStoredSession, storeSession, type Session } from "./lib/session";
+import { loadJson, saveJson } from "./lib/storage";
+import { formatTemplateError, parseTemplate, processMessage, usedCases, type ParsedTemplate } from "./lib/template";
+import { identifyToken } from "./lib/tokenInfo";
+import { hasSavedToken } from "./lib/tokenVault";
+import {
+  createTemplatePicker,
+  DEFAULT_VARIANT_SPLIT,
+  runVariants,
+  variantResults,
+  variantsProblem,
+  type TemplatePicker,
+  type TemplateVariant,
+  type VariantSplit,
+} from "./lib/variants";
+import { createVkClient, randomMessageId, VkApiError } from "./lib/vkApi";
+import { applyScreenNames, resolveScreenNames } from "./lib/vkLinks";
+import { cn } from "./utils/cn";
+import { useVirtualRows } from "./utils/useVirtualRows";
+
+const RATE_LIMITS_KEY = "rateLimits";
+// Timestamps of recent sends, so hourly/daily caps survive a reload
+const SEND_LOG_KEY = "sendLog";
+const SEND_WINDOW_KEY = "sendWindow";
+const SCHEDULED_RUNS_KEY = "scheduledRuns";
+const COMMUNITY_KEY = "community";
+const REPLY_POLL_MS = 60_000;
+// The open campaign is written to the history at most this often
+const CAMPAIGN_SAVE_DELAY_MS = 1000;
+// The session is written at most this often: each write copies the whole contact list
+const SESSION_SAVE_INTERVAL_MS = 500;
+// Starting guess for a contact row in the table, in pixels, until one is measured
+const TABLE_ROW_HEIGHT = 64;
+
+// Restores the last session. A run that was going when the tab closed comes back paused;
+// rows caught mid-send outside a run cannot be retried safely and are flagged for a manual check.
+function restoreSession(saved: Session | null): Session {
+  if (!saved) return { message: "", fileName: "", contacts: [], run: null, campaign: null };
+
+  const run = saved.run && saved.run.status !== "finished" && saved.run.status !== "stopped"
+    ? { ...saved.run, status: "paused" as const }
+    : null;
+  const pending = new Set(run ? run.queue.slice(run.cursor) : []);
+  const contacts = saved.contacts.map((c) => {
+    if (c.status !== "sending") return c;
+    return pending.has(c.id)
+      ? { ...c, status: "idle" as const }
+      : { ...c, status: "error" as const, errorMsg: "Отправка прервалась — проверьте диалог вручную" };
+  });
+  // Sessions from before the history become its first entry
+  const campaign = saved.campaign ?? (contacts.length > 0 ? createCampaignRef(saved.fileName) : null);
+  return { ...saved, contacts, run, campaign };
 }
 
-function extractVkId(link: string): string | null {
-  const trimmed = link.trim();
-  const match = trimmed.match(/vk\.com\/id(\d+)/i);
-  if (match) return match[1];
-  const numericMatch = trimmed.match(/(\d+)/);
-  if (numericMatch) return numericMatch[1];
-  return null;
+// Who "Отправить всем" will message: everyone with an ID not yet messaged or ruled out
+function isDeliverable(c: Contact): boolean {
+  return c.vkId !== "—" && c.status !== "sent" && c.status !== "skipped" && c.status !== "unavailable";
 }
 
-function parseGender(raw: string): Gender {
-  const s = raw.trim().toUpperCase();
-  if (s === "М" || s === "M") return "М";
-  if (s === "Ж" || s === "F" || s === "W") return "Ж";
-  return "";
+// A short name still to be turned into an ID: never tried, or tried and failed (e.g. the network dropped)
+function needsResolving(c: Contact): boolean {
+  return !!c.screenName && c.vkId === "—" && (c.status === "idle" || c.status === "error");
 }
 
-// Parse and substitute placeholders in message for a specific contact
-function processMessage(
-  template: string,
-  contact: Contact
-): { text: string; error: string | null } {
-  let result = template;
+// Rows the page counts or picks out; the contact store keeps them current as statuses change
+const CONTACT_GROUPS = {
+  sent: (c) => c.status === "sent",
+  error: (c) => c.status === "error",
+  skipped: (c) => c.status === "skipped",
+  unavailable: (c) => c.status === "unavailable",
+  deliverable: isDeliverable,
+  unresolved: needsResolving,
+  genderReview: needsGenderReview,
+  tracked: isTrackable,
+  read: (c) => isTrackable(c) && (c.readState === "read" || c.readState === "replied"),
+  replied: (c) => isTrackable(c) && c.readState === "replied",
+  readChecked: (c) => isTrackable(c) && c.readState !== undefined,
+  withVariant: (c) => !!c.variant,
+} satisfies ContactGroups<string>;
+
+// processMessage errors by template and contact: a row that has not changed is not rendered again
+const renderErrors = new WeakMap<ParsedTemplate, WeakMap<Contact, string | null>>();
+
+function renderError(template: ParsedTemplate, contact: Contact): string | null {
+  let errors = renderErrors.get(template);
+  if (!errors) {
+    errors = new WeakMap();
+    renderErrors.set(template, errors);
+  }
+  let error = errors.get(contact);
+  if (error === undefined) {
+    error = processMessage(template, contact).error;
+    errors.set(contact, error);
+  }
+  return error;
+}
+
+// The saved session is read from IndexedDB, so the editor opens once it is there
+export function App() {
+  const [restored, setRestored] = useState<Session | null>(null);
+
+  useEffect(() => {
+    loadStoredSession().then((saved) => setRestored((prev) => prev ?? restoreSession(saved)));
+  }, []);
+
+  if (!restored) return <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50" />;
+  return <Editor restored={restored} />;
+}
+
+function Editor({ restored }: { restored: Session }) {
+  const [message, setMessage] = useState(restored.message);
+  const [keyboard, setKeyboard] = useState<MessageKeyboard | null>(restored.keyboard ?? null);
+  const [attachments, setAttachments] = useState<Attachment[]>(restored.attachments ?? []);
+  const [attachmentColumn, setAttachmentColumn] = useState(restored.attachmentColumn ?? "");
+  // A/B test; empty when there is just the one text. The first variant's text is always `message`.
+  const [variants, setVariants] = useState<TemplateVariant[]>(restored.variants ?? []);
+  const [variantSplit, setVariantSplit] = useState<VariantSplit>(restored.variantSplit ?? DEFAULT_VARIANT_SPLIT);
+  // Variant open in the editor
+  const [activeVariant, setActiveVariant] = useState(0);
+  const [campaign, setCampaign] = useState<CampaignRef | null>(restored.campaign ?? null);
+  const [campaigns, setCampaigns] = useState<CampaignSummary[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historyError, setHistoryError] = useState("");
+  const [sessionError, setSessionError] = useState("");
+  const [token, setToken] = useState("");
+  // Whose token it is and what it lacks; null while the field is empty
+  const [tokenState, setTokenState] = useState<TokenState | null>(null);
+  const [tokenSaved, setTokenSaved] = useState(hasSavedToken);
+  // Kept outside React state: a run changes one row at a time, thousands of times over
+  const [contactStore] = useState(() => createContactStore(restored.contacts, CONTACT_GROUPS));
+  const {
+    version: contactsVersion,
+    ids: contactIds,
+    counts,
+  } = useSyncExternalStore(contactStore.subscribe, contactStore.getSnapshot);
+  const setContacts = contactStore.set;
+  // The rows as of the last whole-list change. Names, links and columns are current; statuses
+  // may lag behind, so anything about sending reads the store or its counts instead.
+  const contactList = useMemo(() => contactIds.map((id) => contactStore.get(id)!), [contactStore, contactIds]);
+  const [fileError, setFileError] = useState("");
+  const [fileName, setFileName] = useState(restored.fileName);
+  // The run itself (persisted) and whether its loop is executing in this tab right now
+  const [run, setRun] = useState<SendRun | null>(restored.run);
+  const [sendingAll, setSendingAll] = useState(false);
+  const runControl = useRef<RunControl | null>(null);
+  const [rateLimits, setRateLimits] = useState<RateLimitConfig>(
+    () => loadJson<RateLimitConfig>(RATE_LIMITS_KEY) ?? { preset: "personal", settings: RATE_LIMIT_PRESETS.personal }
+  );
+  const limiterRef = useRef<RateLimiter | null>(null);
+  const [sendWindow, setSendWindow] = useState<SendWindow>(() => loadJson<SendWindow>(SEND_WINDOW_KEY) ?? DEFAULT_SEND_WINDOW);
+  // Read by the running loop, so changing the hours mid-run takes effect at the next message
+  const sendWindowRef = useRef(sendWindow);
+  sendWindowRef.current = sendWindow;
+  const [scheduled, setScheduled] = useState<ScheduledRun[]>(() => loadJson<ScheduledRun[]>(SCHEDULED_RUNS_KEY) ?? []);
+  const [openedAt] = useState(Date.now);
+  const [community, setCommunity] = useState<CommunitySettings>(
+    () => loadJson<CommunitySettings>(COMMUNITY_KEY) ?? DEFAULT_COMMUNITY_SETTINGS
+  );
+  // The last token check and the token and group it was made for
+  const [communityCheck, setCommunityCheck] = useState<{ key: string; result: CommunityCheck } | null>(null);
+  const [checkingCommunity, setCheckingCommunity] = useState(false);
+  // Re-renders once a second while a run or a countdown is on screen, so the ETA and timers stay current
+  const [, setTick] = useState(0);
+  const [globalError, setGlobalError] = useState("");
+  // A file that has been read but whose columns are not mapped yet
+  const [importSource, setImportSource] = useState<ImportSource | null>(null);
+  const [importKey, setImportKey] = useState(0);
+  const [dragOver, setDragOver] = useState(false);
+  // A file being parsed, with how far it has got (null until the parser reports)
+  const [reading, setReading] = useState<{ name: string; percent: number | null } | null>(null);
+  const readingId = useRef(0);
+  // The row whose status is under the pointer: its preview is the only one rendered, for the tooltip
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [optOut, setOptOut] = useState<OptOutEntry[]>(loadOptOut);
+  const optOutRef = useRef(optOut);
+  optOutRef.current = optOut;
+  // Set when the operator chose to keep the repeats of the current list
+  const [duplicatesDismissed, setDuplicatesDismissed] = useState(false);
+  const [resolving, setResolving] = useState<{ done: number; total: number } | null>(null);
+  const [checking, setChecking] = useState<{ done: number; total: number } | null>(null);
+  // Set once "Проверить" has run for this list: the community the token belongs to, or "" for a user token
+  const [checkedAs, setCheckedAs] = useState<string | null>(null);
+  const [loadingProfiles, setLoadingProfiles] = useState<{ done: number; total: number } | null>(null);
+  const [profilesDismissed, setProfilesDismissed] = useState(false);
+  // Narrows the table to rows whose guessed gender wants a look
+  const [genderReviewOnly, setGenderReviewOnly] = useState(false);
+  // Sent rows picked for a bulk edit or delete, the action in progress and how the last one went
+  const [selectedSent, setSelectedSent] = useState<Set<string>>(() => new Set());
+  const [sentProgress, setSentProgress] = useState<{ action: SentAction; done: number; total: number } | null>(null);
+  const [sentResults, setSentResults] = useState<{ action: SentAction; results: SentActionResult[] } | null>(null);
+  const sentActionStopped = useRef(false);
+  const [replyFilter, setReplyFilter] = useState<ReplyFilter>("all");
+  const [watchReplies, setWatchReplies] = useState(false);
+  const [checkingReplies, setCheckingReplies] = useState<{ done: number; total: number } | null>(null);
+  const [repliesCheckedAt, setRepliesCheckedAt] = useState<number | null>(null);
+  const [captcha, setCaptcha] = useState<{ imageUrl: string; retry: boolean } | null>(null);
+  const captchaAnswer = useRef<((key: string | null) => void) | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Pauses whatever call hit error 14 until the operator answers in the modal
+  const askCaptcha = useCallback((err: VkApiError, attempt: number) => {
+    captchaAnswer.current?.(null);
+    return new Promise<string | null>((resolve) => {
+      captchaAnswer.current = resolve;
+      setCaptcha({ imageUrl: err.captchaImg ?? "", retry: attempt > 1 });
+    });
+  }, []);
+
+  const answerCaptcha = (key: string | null) => {
+    const resolve = captchaAnswer.current;
+    captchaAnswer.current = null;
+    setCaptcha(null);
+    resolve?.(key);
+  };
+
+  const vk = useMemo(
+    () =>
+      createVkClient({
+        token: token.trim(),
+        transport: jsonpTransport,
+        onCaptcha: askCaptcha,
+        onApiError: (err) => {
+          if (err.code === 6 || err.code === 9) limiterRef.current?.reportFlood();
+        },
+      }),
+    [token, askCaptcha]
+  );
 
-  // 1. Replace {имя}
-  result = result.replace(/\{имя\}/gi, contact.firstName);
+  // Checks the token once typing stops, so a wrong one shows up before any row fails
+  useEffect(() => {
+    if (!vk.token) {
+      setTokenState(null);
+      return;
+    }
+    let cancelled = false;
+    setTokenState({ status: "checking" });
+    const timer = setTimeout(() => {
+      identifyToken(vk).then(
+        (identity) => !cancelled && setTokenState({ status: "ok", identity }),
+        (err) =>
+          !cancelled &&
+          setTokenState({ status: "error", message: err instanceof Error ? err.message : "Не удалось проверить токен" })
+      );
+    }, 600);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [vk]);
+
+  // Column variables are only checked once there are contacts to take them from. The set is
+  // only replaced when the names change, so a row update does not re-parse every template.
+  const varNames = useMemo(() => {
+    if (contactList.length === 0) return null;
+    const names = new Set<string>();
+    for (const c of contactList) for (const key of Object.keys(c.vars ?? {})) names.add(key);
+    return [...names].join("\n");
+  }, [contactList]);
+  const knownVars = useMemo(
+    () => (varNames === null ? undefined : new Set(varNames ? varNames.split("\n") : [])),
+    [varNames]
+  );
+  const deliverableIds = contactStore.members("deliverable");
 
-  // 2. Replace {М:value|Ж:value}
-  const genderRegex = /\{М:([^|]*)\|Ж:([^}]*)\}/g;
-  let hasInvalidPlaceholder = false;
+  const parsedMessage = useMemo(() => parseTemplate(message, knownVars), [message, knownVars]);
+
+  // Every text that goes out, each parsed on its own: the A/B variants or just the message
+  const sendVariants = useMemo(
+    () => runVariants({ template: message, variants: variants.map((v, i) => (i === 0 ? { ...v, text: message } : v)) }),
+    [message, variants]
+  );
+  const parsedVariants = useMemo(
+    () => sendVariants.map((v, i) => (i === 0 ? parsedMessage : parseTemplate(v.text, knownVars))),
+    [sendVariants, parsedMessage, knownVars]
+  );
+  const variantProblem = variantsProblem(sendVariants, parsedVariants, variantSplit);
+  const activeIndex = Math.min(activeVariant, sendVariants.length - 1);
+  const activeTemplate = parsedVariants[activeIndex];
+
+  // Which text each contact gets, with the shares counted over everyone "Отправить всем" would message now,
+  // or over the open run's queue as the sender counts them, so rows sent meanwhile do not shift the split
+  const splitIds = run && (run.status === "running" || run.status === "paused") ? run.queue : deliverableIds;
+  const pickTemplate: TemplatePicker = useMemo(
+    () => createTemplatePicker(sendVariants, parsedVariants, variantSplit, splitIds),
+    [sendVariants, parsedVariants, variantSplit, splitIds]
+  );
+  // The first contact each variant goes to, or simply the first one, for the previews under the table
+  const variantSamples = useMemo(
+    () => sendVariants.map((v) => contactList.find((c) => pickTemplate(c).variant === v.name) ?? contactList[0]),
+    [sendVariants, pickTemplate, contactList]
+  );
+  // What goes over every contact follows the editor and the run at its own pace, without holding them up
+  const listPick = useDeferredValue(pickTemplate);
+  const listDeliverable = useDeferredValue(deliverableIds);
+  const deliverable = useMemo(() => {
+    const pending = new Set(listDeliverable);
+    return contactList.filter((c) => pending.has(c.id));
+  }, [contactList, listDeliverable]);
+
+  // Contacts the template cannot be filled in for (e.g. a name that does not decline); they are not sent
+  const renderFailures = useMemo(() => {
+    if (variantProblem) return [];
+    return deliverable
+      .map((contact) => {
+        const picked = listPick(contact);
+        if (picked.error !== null) return { contact, error: picked.error };
+        const error = renderError(picked.template, contact);
+        return { contact, error: error && picked.variant ? `вариант ${picked.variant}: ${error}` : error };
+      })
+      .filter((f): f is { contact: Contact; error: string } => f.error !== null);
+  }, [variantProblem, listPick, deliverable]);
+
+  // How many of the contacts still to be messaged get each variant
+  const variantCounts = useMemo(() => {
+    if (variants.length === 0 || (variantSplit.by === "column" && !variantSplit.column)) return null;
+    const perVariant = sendVariants.map(() => 0);
+    for (const c of deliverable) {
+      const index = sendVariants.findIndex((v) => v.name === listPick(c).variant);
+      if (index >= 0) perVariant[index]++;
+    }
+    return perVariant;
+  }, [variants.length, variantSplit, sendVariants, listPick, deliverable]);
 
-  result = result.replace(genderRegex, (_match, maleVal: string, femaleVal: string) => {
-    const g = contact.gender || "М"; // default to М if not set
-    return g === "Ж" ? femaleVal : maleVal;
+  // Whether the session changed since it was last written, and the timer that will write it
+  const sessionDirty = useRef(false);
+  const sessionTimer = useRef<number | null>(null);
+  const writeSession = useEffectEvent(() => {
+    if (!sessionDirty.current) return;
+    sessionDirty.current = false;
+    const session: Session = {
+      message,
+      fileName,
+      contacts: contactStore.list(),
+      run,
+      keyboard,
+      attachments,
+      attachmentColumn,
+      variants,
+      variantSplit,
+      campaign,
+    };
+    storeSession(session).then(
+      () => setSessionError(""),
+      () => setSessionError("Не удалось сохранить список и рассылку в браузере: после перезагрузки страницы они не восстановятся")
+    );
   });
 
-  // 3. Check for remaining unclosed/malformed placeholders like {М:..} or {Ж:..} without proper format
-  const leftoverBraces = result.match(/\{[^}]*\}/g);
-  if (leftoverBraces) {
-    for (const lb of leftoverBraces) {
-      // Ignore if it doesn't look like our placeholders
-      if (/\{(М|Ж|имя)/i.test(lb)) {
-        hasInvalidPlaceholder = true;
-      }
+  useEffect(() => {
+    sessionDirty.current = true;
+    if (sessionTimer.current !== null) return;
+    sessionTimer.current = window.setTimeout(() => {
+      sessionTimer.current = null;
+      writeSession();
+    }, SESSION_SAVE_INTERVAL_MS);
+  }, [message, fileName, contactsVersion, run, keyboard, attachments, attachmentColumn, variants, variantSplit, campaign]);
+
+  useEffect(() => {
+    const onHide = () => writeSession();
+    window.addEventListener("pagehide", onHide);
+    return () => window.removeEventListener("pagehide", onHide);
+  }, []);
+
+  useEffect(() => {
+    listCampaigns().then(setCampaigns, () => setHistoryError("История кампаний недоступна в этом браузере"));
+  }, []);
+
+  // The open campaign as it would go into the history, or null if there is nothing to keep
+  const campaignSnapshot = (): Campaign | null => {
+    const contacts = contactStore.list();
+    if (!campaign || contacts.length === 0) return null;
+    const content = { message, fileName, keyboard, attachments, attachmentColumn, variants, variantSplit };
+    return { ...summarizeCampaign(campaign, content, contacts), contacts };
+  };
+
+  const storeCampaign = async (snapshot: Campaign) => {
+    try {
+      await saveCampaign(snapshot);
+      const { contacts: _, ...summary } = snapshot;
+      setCampaigns((prev) => [summary, ...prev.filter((c) => c.id !== summary.id)]);
+      setHistoryError("");
+    } catch {
+      setHistoryError("Не удалось сохранить кампанию в истории браузера");
     }
-  }
+  };
 
-  // Also validate the template itself for malformed gender placeholders
-  const malformedGender = template.match(/\{М:[^}]*\}/g);
-  if (malformedGender) {
-    for (const mg of malformedGender) {
-      if (!/\{М:[^|]*\|Ж:[^}]*\}/.test(mg)) {
-        hasInvalidPlaceholder = true;
-      }
+  // Writes the open campaign at once, before the editor moves on to another list
+  const flushCampaign = async () => {
+    const snapshot = campaignSnapshot();
+    if (snapshot) await storeCampaign(snapshot);
+  };
+
+  const campaignTimer = useRef<number | null>(null);
+  const saveOpenCampaign = useEffectEvent(() => {
+    const snapshot = campaignSnapshot();
+    if (snapshot) storeCampaign(snapshot);
+  });
+
+  useEffect(() => {
+    if (!campaign || campaignTimer.current !== null) return;
+    campaignTimer.current = window.setTimeout(() => {
+      campaignTimer.current = null;
+      saveOpenCampaign();
+    }, CAMPAIGN_SAVE_DELAY_MS);
+  }, [campaign, message, fileName, contactsVersion, keyboard, attachments, attachmentColumn, variants, variantSplit]);
+
+  useEffect(() => {
+    saveJson(RATE_LIMITS_KEY, rateLimits);
+  }, [rateLimits]);
+
+  useEffect(() => {
+    saveJson(SEND_WINDOW_KEY, sendWindow);
+  }, [sendWindow]);
+
+  useEffect(() => {
+    saveJson(SCHEDULED_RUNS_KEY, scheduled);
+  }, [scheduled]);
+
+  useEffect(() => {
+    saveJson(COMMUNITY_KEY, community);
+  }, [community]);
+
+  const hasScheduled = scheduled.length > 0;
+  useEffect(() => {
+    if (!sendingAll && !hasScheduled) return;
+    const timer = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(timer);
+  }, [sendingAll, hasScheduled]);
+
+  // Resolve short names (vk.com/ivan_petrov, @ivan_petrov) to numeric IDs
+  const resolveContacts = async (list: Contact[]) => {
+    if (!token.trim()) {
+      alert("Введите токен VK API");
+      return;
     }
-  }
+    const names = list.filter(needsResolving).map((c) => c.screenName!);
+    if (names.length === 0) return;
 
-  if (hasInvalidPlaceholder) {
-    return { text: "", error: "Некорректный плейсхолдер в сообщении. Формат: {М:значение|Ж:значение}" };
-  }
+    setResolving({ done: 0, total: new Set(names).size });
+    try {
+      const results = await resolveScreenNames(vk, names, (done, total) => setResolving({ done, total }));
+      setContacts((prev) =>
+        // A resolved ID may be on the stop list even when the short name was not
+        applyOptOut(applyScreenNames(prev, results), optOutRef.current)
+      );
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : "Не удалось определить ID");
+    } finally {
+      setResolving(null);
+    }
+  };
 
-  return { text: result, error: null };
-}
+  const checkContacts = async () => {
+    if (!token.trim()) {
+      alert("Введите токен VK API");
+      return;
+    }
+    const ids = contactStore
+      .list()
+      .filter((c) => c.vkId !== "—" && c.status !== "sent" && c.status !== "skipped")
+      .map((c) => c.vkId);
+    if (ids.length === 0) return;
 
-// Validate that all placeholders in the template are well-formed (before sending)
-function validateTemplate(template: string): string | null {
-  // Check for {М:...} without proper |Ж:...}
-  const allBraces = template.match(/\{[^}]*\}/g);
-  if (!allBraces) return null;
-
-  for (const b of allBraces) {
-    const lower = b.toLowerCase();
-    if (lower === "{имя}") continue;
-    // Check if it looks like a gender placeholder attempt
-    if (/\{М/i.test(b) || /\{Ж/i.test(b) || b.includes("|")) {
-      if (!/^\{М:[^|]*\|Ж:[^}]*\}$/.test(b)) {
-        return `Некорректный плейсхолдер: ${b}\nПравильный формат: {М:значение|Ж:значение}`;
+    setGlobalError("");
+    setChecking({ done: 0, total: new Set(ids).size });
+    try {
+      const community = await detectCommunity(vk);
+      const results = await checkDeliverability(vk, ids, community, (done, total) => setChecking({ done, total }));
+      setContacts((prev) => applyDeliverability(prev, results));
+      setCheckedAs(community?.name ?? "");
+      const unknown = [...results.values()].filter((v) => v.ok === "unknown");
+      if (unknown.length > 0) {
+        setGlobalError(
+          `Не удалось проверить ${unknown.length} из ${results.size} (${unknown[0].reason}): они остались как были, проверьте их ещё раз позже`
+        );
       }
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : "Не удалось проверить контакты");
+    } finally {
+      setChecking(null);
     }
-  }
-  return null;
-}
+  };
 
-// JSONP helper to bypass CORS
-function jsonp(url: string): Promise<Record<string, unknown>> {
-  return new Promise((resolve, reject) => {
-    const callbackName = `vk_cb_${Date.now()}_${Math.floor(Math.random() * 100000)}`;
-    const script = document.createElement("script");
+  const loadProfiles = async () => {
+    if (!token.trim()) {
+      alert("Введите токен VK API");
+      return;
+    }
+    const ids = contactStore.list().filter((c) => c.vkId !== "—").map((c) => c.vkId);
+    if (ids.length === 0) return;
 
-    const cleanup = () => {
-      delete (window as unknown as Record<string, unknown>)[callbackName];
-      if (script.parentNode) script.parentNode.removeChild(script);
-    };
+    setGlobalError("");
+    setLoadingProfiles({ done: 0, total: new Set(ids).size });
+    try {
+      // VK's declined names only for the cases the message and its variants put names into
+      const cases = [...new Set(parsedVariants.flatMap((t) => usedCases(t.nodes)))];
+      const profiles = await fetchProfiles(vk, ids, cases, (done, total) => setLoadingProfiles({ done, total }));
+      setContacts((prev) => attachProfiles(prev, profiles));
+      setProfilesDismissed(false);
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : "Не удалось загрузить профили");
+    } finally {
+      setLoadingProfiles(null);
+    }
+  };
 
-    (window as unknown as Record<string, unknown>)[callbackName] = (data: Record<string, unknown>) => {
-      cleanup();
-      resolve(data);
-    };
+  const checkReplies = async () => {
+    if (!token.trim() || checkingReplies) return;
+    const tracked = contactStore.list().filter(isTrackable);
+    if (tracked.length === 0) return;
+    const groupId = community.enabled ? parseGroupId(community.groupId) ?? undefined : undefined;
+    setCheckingReplies({ done: 0, total: tracked.length });
+    try {
+      const replies = await fetchReplies(vk, tracked, groupId, (done, total) => setCheckingReplies({ done, total }));
+      setContacts((prev) => applyReplies(prev, replies));
+      setRepliesCheckedAt(Date.now());
+    } catch (err) {
+      setWatchReplies(false);
+      setGlobalError(err instanceof Error ? err.message : "Не удалось проверить ответы");
+    } finally {
+      setCheckingReplies(null);
+    }
+  };
+  // The interval below always calls the latest version, with the current token and list
+  const checkRepliesRef = useRef(checkReplies);
+  checkRepliesRef.current = checkReplies;
 
-    script.src = `${url}&callback=${callbackName}`;
-    script.onerror = () => {
-      cleanup();
-      reject(new Error("Ошибка загрузки скрипта (сеть)"));
-    };
+  // Held while a run sends: the checks are not paced by its limiter and would eat into the same
+  // requests-per-second allowance as the messages. They pick up again once the run is over.
+  useEffect(() => {
+    if (!watchReplies || sendingAll) return;
+    checkRepliesRef.current();
+    const timer = setInterval(() => checkRepliesRef.current(), REPLY_POLL_MS);
+    return () => clearInterval(timer);
+  }, [watchReplies, sendingAll]);
 
-    setTimeout(() => {
-      cleanup();
-      reject(new Error("Таймаут запроса"));
-    }, 15000);
+  // Puts the people the filter shows back in the queue, so "Отправить всем" writes to them again
+  const prepareFollowUp = () => {
+    const ids = new Set(contactStore.list().filter((c) => matchesReplyFilter(c, replyFilter)).map((c) => c.id));
+    const question =
+      `Вернуть ${ids.size} контакт(ов) в очередь? Отметки об их отправке будут сброшены — ` +
+      "сначала сохраните отчёт, если он нужен. Затем измените текст и нажмите «Отправить всем».";
+    if (ids.size === 0 || !confirm(question)) return;
+    setRun(null);
+    setContacts((prev) =>
+      prev.map((c) =>
+        ids.has(c.id)
+          ? {
+              ...c,
+              status: "idle" as const,
+              sentText: undefined,
+              sentAt: undefined,
+              messageId: undefined,
+              sentAttachment: undefined,
+              variant: undefined,
+              editedAt: undefined,
+              readState: undefined,
+              replyText: undefined,
+              repliedAt: undefined,
+            }
+          : c
+      )
+    );
+    setReplyFilter("all");
+  };
 
-    document.body.appendChild(script);
-  });
-}
+  const acceptFromProfile = (field: ProfileField, id?: string) => {
+    setContacts((prev) => acceptProfileField(prev, field, id ? new Set([id]) : undefined));
+  };
 
-export function App() {
-  const [message, setMessage] = useState("");
-  const [token, setToken] = useState("");
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [fileError, setFileError] = useState("");
-  const [fileName, setFileName] = useState("");
-  const [sendingAll, setSendingAll] = useState(false);
-  const [globalError, setGlobalError] = useState("");
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const openImport = (source: ImportSource) => {
+    if (source.sheets.every((sheet) => sheet.rows.length === 0)) {
+      setFileError("Файл пустой.");
+      return;
+    }
+    setImportSource(source);
+    setImportKey((k) => k + 1);
+  };
 
-  const handleFileUpload = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      setFileError("");
-      setGlobalError("");
-      const file = e.target.files?.[0];
-      if (!file) return;
-      setFileName(file.name);
-
-      const reader = new FileReader();
-      reader.onload = (evt) => {
-        try {
-          const data = new Uint8Array(evt.target?.result as ArrayBuffer);
-          const workbook = XLSX.read(data, { type: "array" });
-          const sheetName = workbook.SheetNames[0];
-          const sheet = workbook.Sheets[sheetName];
-          const rows: (string | number | undefined)[][] = XLSX.utils.sheet_to_json(sheet, {
-            header: 1,
-            defval: "",
-          });
-
-          const startIdx =
-            rows.length > 0 &&
-            rows[0].some((cell) => {
-              const s = String(cell ?? "").toLowerCase();
-              return (
-                s.includes("имя") ||
-                s.includes("фамилия") ||
-                s.includes("ссылка") ||
-                s.includes("vk") ||
-                s.includes("name") ||
-                s.includes("link") ||
-                s.includes("пол")
-              );
-            })
-              ? 1
-              : 0;
-
-          const parsed: Contact[] = [];
-          for (let i = startIdx; i < rows.length; i++) {
-            const row = rows[i];
-            if (!row || row.length < 2) continue;
-            const fullName = String(row[0] ?? "").trim();
-            const link = String(row[1] ?? "").trim();
-            const genderRaw = row.length >= 3 ? String(row[2] ?? "").trim() : "";
-            if (!fullName && !link) continue;
-
-            const firstName = fullName.split(/\s+/)[0] || "";
-            const gender = parseGender(genderRaw);
-            const vkId = extractVkId(link);
-
-            if (vkId) {
-              parsed.push({ fullName, firstName, gender, vkId, rawLink: link, status: "idle" });
-            } else if (fullName || link) {
-              parsed.push({
-                fullName,
-                firstName,
-                gender,
-                vkId: "—",
-                rawLink: link,
-                status: "error",
-                errorMsg: "Не удалось извлечь ID",
-              });
-            }
-          }
-
-          if (parsed.length === 0) {
-            setFileError(
-              "Не найдено контактов. Убедитесь, что файл содержит столбцы: Имя Фамилия, Ссылка ВК, Пол (опционально)."
-            );
-          }
-          setContacts(parsed);
-        } catch (err) {
-          console.error(err);
-          setFileError("Ошибка при чтении файла. Проверьте формат (.xlsx / .xls).");
-        }
-      };
-      reader.readAsArrayBuffer(file);
-    },
-    []
-  );
+  // Parses a file or pasted text off the page's thread; a newer file supersedes one still being read
+  const readSource = async (name: string, read: () => Promise<ImportSource>, errorMessage: string) => {
+    const id = ++readingId.current;
+    setFileError("");
+    setGlobalError("");
+    setReading({ name, percent: null });
+    try {
+      const source = await read();
+      if (id === readingId.current) openImport(source);
+    } catch (err) {
+      console.error(err);
+      if (id === readingId.current) setFileError(errorMessage);
+    } finally {
+      if (id === readingId.current) setReading(null);
+    }
+  };
 
-  const updateContact = (index: number, updates: Partial<Contact>) => {
-    setContacts((prev) =>
-      prev.map((c, i) => (i === index ? { ...c, ...updates } : c))
+  const onReadProgress = (done: number, total: number) => {
+    const percent = total > 0 ? Math.round((done / total) * 100) : null;
+    setReading((prev) => prev && { ...prev, percent });
+  };
+
+  const loadFile = (file: File) => {
+    readSource(
+      file.name,
+      async () => readInBackground({ fileName: file.name, data: await file.arrayBuffer() }, onReadProgress),
+      "Ошибка при чтении файла. Поддерживаются .xlsx, .xls, .ods, .csv и .tsv."
     );
+    // Lets the same file be picked again after cancelling the import
+    if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const removeContact = (index: number) => {
-    setContacts((prev) => prev.filter((_, i) => i !== index));
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(file);
   };
 
-  const sendMessageToContact = useCallback(
-    async (index: number, contact: Contact, msgTemplate: string) => {
-      if (!token.trim()) return;
-      if (!contact || contact.vkId === "—") return;
-
-      // Process placeholders
-      const { text, error } = processMessage(msgTemplate, contact);
-      if (error) {
-        updateContact(index, { status: "error", errorMsg: error });
-        return;
-      }
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) loadFile(file);
+  };
 
-      updateContact(index, { status: "sending", errorMsg: undefined });
+  // A range copied from Excel or Google Sheets arrives as tab-separated text
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = e.clipboardData.files?.[0];
+    if (file) {
+      e.preventDefault();
+      loadFile(file);
+      return;
+    }
+    const text = e.clipboardData.getData("text/plain");
+    if (!text.trim()) return;
+    e.preventDefault();
+    const name = "Вставленная таблица";
+    readSource(name, () => readInBackground({ fileName: name, text }, onReadProgress), "Не удалось разобрать вставленную таблицу.");
+  };
 
-      try {
-        const randomId = Math.floor(Math.random() * 2147483647);
-        const params = new URLSearchParams({
-          user_id: contact.vkId,
-          message: text,
-          random_id: String(randomId),
-          access_token: token.trim(),
-          v: "5.131",
-        });
+  const finishImport = (parsed: Contact[]) => {
+    if (!importSource) return;
+    flushCampaign();
+    runControl.current?.stop();
+    setRun(null);
+    setFileName(importSource.fileName);
+    setCampaign(createCampaignRef(importSource.fileName));
+    setImportSource(null);
+    setContacts(applyOptOut(parsed, optOut));
+    setDuplicatesDismissed(false);
+    setCheckedAs(null);
+    setProfilesDismissed(false);
+    if (token.trim() && parsed.some((c) => c.screenName)) {
+      resolveContacts(parsed);
+    }
+  };
 
-        const url = `https://api.vk.com/method/messages.send?${params.toString()}`;
-        const result = await jsonp(url);
+  // For how sending went: statuses, results, sent texts
+  const updateContact = contactStore.update;
 
-        if (result.error) {
-          const errObj = result.error as Record<string, unknown>;
-          updateContact(index, { status: "error", errorMsg: String(errObj.error_msg || "Ошибка API") });
-        } else {
-          updateContact(index, { status: "sent" });
-        }
-      } catch (err) {
-        updateContact(index, {
-          status: "error",
-          errorMsg: err instanceof Error ? err.message : "Ошибка сети",
-        });
-      }
+  // For what the row says (a name, the gender): the list is replaced, so everything worked
+  // out from names and columns (previews, template errors, repeats) follows the edit
+  const editContact = (id: string, updates: Partial<Contact>) => {
+    setContacts((prev) => prev.map((c) => (c.id === id ? { ...c, ...updates } : c)));
+  };
+
+  const removeContact = (id: string) => {
+    setContacts((prev) => prev.filter((c) => c.id !== id));
+  };
+
+  // Throws only when the token is unusable or a captcha was left unanswered,
+  // so a run can stop instead of failing row by row
+  const sendMessageToContact = useCallback(
+    async (
+      contact: Contact,
+      pick: TemplatePicker,
+      randomId = randomMessageId(),
+      extras: MessageExtras = {}
+    ): Promise<SendOutcome> => {
+      if (!token.trim() || !contact) return "skipped";
+      return deliverMessage(vk, contact, pick, {
+        randomId,
+        extras,
+        community: community.enabled ? { groupId: parseGroupId(community.groupId) ?? undefined } : undefined,
+        // Checked against the list as it is now, not as it was when the run started
+        isOptedOut: createOptOutMatcher(optOutRef.current),
+        onUpdate: (updates) => updateContact(contact.id, updates),
+      });
     },
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [token]
+    [token, vk, community]
   );
 
-  const sendMessage = (index: number) => {
+  // In community mode: makes sure the token is a community token with access to messages,
+  // once per token and group. Reports the problem and returns false otherwise; force repeats the check.
+  const ensureCommunity = async (force = false): Promise<boolean> => {
+    if (!community.enabled) return true;
+    const groupId = parseGroupId(community.groupId);
+    if (community.groupId.trim() && groupId === null) {
+      setGlobalError("Укажите числовой ID сообщества");
+      return false;
+    }
+    let result = !force && communityCheck?.key === communityKey ? communityCheck.result : null;
+    if (!result) {
+      setCheckingCommunity(true);
+      try {
+        result = await verifyCommunityToken(vk, groupId);
+      } catch (err) {
+        setGlobalError(err instanceof Error ? err.message : "Не удалось проверить токен");
+        return false;
+      } finally {
+        setCheckingCommunity(false);
+      }
+      // A blank ID is filled in from the token, and the check stays valid for it
+      const found = result.ok ? result.group.id : null;
+      setCommunityCheck({ key: `${token.trim()}:${groupId ?? found ?? ""}`, result });
+      if (groupId === null && found !== null) setCommunity((prev) => ({ ...prev, groupId: String(found) }));
+    }
+    if (!result.ok) {
+      setGlobalError(result.reason);
+      return false;
+    }
+    return true;
+  };
+
+  const communityKey = `${token.trim()}:${parseGroupId(community.groupId) ?? ""}`;
+  const keyboardJson = community.enabled && keyboard ? serializeKeyboard(keyboard) : undefined;
+  const keyboardError = community.enabled && keyboard ? keyboardProblem(keyboard) : null;
+  // Snapshot of everything but the text that goes with each message
+  const messageExtras: MessageExtras = {
+    keyboard: keyboardJson,
+    attachments: attachments.map((a) => a.media),
+    attachmentColumn: attachmentColumn || undefined,
+    variants: variants.length > 0 ? sendVariants : undefined,
+    variantSplit: variants.length > 0 ? variantSplit : undefined,
+  };
+
+  const sendMessage = async (id: string) => {
     if (!token.trim()) {
       alert("Введите токен VK API");
       return;
@@ -281,29 +846,94 @@ export function App() {
       return;
     }
     setGlobalError("");
-    const templateError = validateTemplate(message);
-    if (templateError) {
-      setGlobalError(templateError);
+    if (variantProblem) {
+      setGlobalError(variantProblem);
       return;
     }
-    const contact = contacts[index];
+    if (keyboardError) {
+      setGlobalError(keyboardError);
+      return;
+    }
+    if (!(await ensureCommunity())) return;
+    const contact = contactStore.get(id);
     if (contact) {
-      sendMessageToContact(index, contact, message);
+      sendMessageToContact(contact, pickTemplate, randomMessageId(), messageExtras).catch((err: Error) =>
+        setGlobalError(err.message)
+      );
     }
   };
 
-  const toggleStatus = (index: number) => {
+  const toggleStatus = (id: string) => {
     setContacts((prev) =>
-      prev.map((c, i) => {
-        if (i !== index) return c;
-        if (c.status === "sent" || c.status === "error")
-          return { ...c, status: "idle" as const, errorMsg: undefined };
+      prev.map((c) => {
+        if (c.id !== id) return c;
+        if (c.status === "sent" || c.status === "error" || c.status === "unavailable")
+          return {
+            ...c,
+            status: "idle" as const,
+            skipReason: undefined,
+            errorMsg: undefined,
+            errorCode: undefined,
+            sentText: undefined,
+            sentAt: undefined,
+            messageId: undefined,
+            sentAttachment: undefined,
+            variant: undefined,
+            editedAt: undefined,
+            deletedAt: undefined,
+          };
         return c;
       })
     );
   };
 
-  const sendAll = useCallback(async () => {
+  // Drives a new or resumed run until it finishes, is stopped, or hits a token/captcha failure
+  const executeSendRun = useCallback(
+    async (current: SendRun) => {
+      const texts = runVariants(current);
+      const pick = createTemplatePicker(
+        texts,
+        texts.map((v) => parseTemplate(v.text)),
+        current.variantSplit ?? DEFAULT_VARIANT_SPLIT,
+        current.queue
+      );
+      const control = createRunControl();
+      const limiter = createRateLimiter(rateLimits.settings, loadJson<number[]>(SEND_LOG_KEY) ?? []);
+      runControl.current = control;
+      limiterRef.current = limiter;
+      setSendingAll(true);
+      setRun({ ...current, status: "running" });
+
+      try {
+        const outcome = await executeRun(current, {
+          control,
+          limiter: {
+            wait: limiter.wait,
+            record: (delivered) => {
+              limiter.record(delivered);
+              saveJson(SEND_LOG_KEY, limiter.history());
+            },
+          },
+          gate: (cancelled) => waitForWindow(() => sendWindowRef.current, cancelled),
+          getItem: contactStore.get,
+          shouldSend: (c) => isDeliverable(c),
+          send: (c, randomId) => sendMessageToContact(c, pick, randomId, current),
+          onProgress: (update) => setRun((prev) => (prev && prev.id === current.id ? { ...prev, ...update } : prev)),
+        });
+        setRun((prev) => (prev && prev.id === current.id ? { ...prev, status: outcome } : prev));
+      } catch (err) {
+        setGlobalError(`Рассылка остановлена: ${err instanceof Error ? err.message : "ошибка API"}`);
+        setRun((prev) => (prev && prev.id === current.id ? { ...prev, status: "paused" } : prev));
+      } finally {
+        runControl.current = null;
+        limiterRef.current = null;
+        setSendingAll(false);
+      }
+    },
+    [sendMessageToContact, rateLimits]
+  );
+
+  const sendAll = async () => {
     if (!token.trim()) {
       alert("Введите токен VK API");
       return;
@@ -313,45 +943,380 @@ export function App() {
       return;
     }
     setGlobalError("");
-    const templateError = validateTemplate(message);
-    if (templateError) {
-      setGlobalError(templateError);
+    if (variantProblem) {
+      setGlobalError(variantProblem);
       return;
     }
+    if (keyboardError) {
+      setGlobalError(keyboardError);
+      return;
+    }
+    if (!(await ensureCommunity())) return;
 
-    setSendingAll(true);
+    const queue = contactStore.list().filter(isDeliverable).map((c) => c.id);
+    executeSendRun(createRun(message, queue, messageExtras));
+  };
 
-    const snapshot = [...contacts];
-    for (let i = 0; i < snapshot.length; i++) {
-      if (snapshot[i].vkId === "—" || snapshot[i].status === "sent") continue;
-      await sendMessageToContact(i, snapshot[i], message);
-      await new Promise((r) => setTimeout(r, 400));
+  const scheduleRun = (at: number) => {
+    if (keyboardError) {
+      setGlobalError(keyboardError);
+      return;
     }
+    setScheduled((prev) => [...prev, createScheduledRun(at, message, messageExtras)].sort((a, b) => a.at - b.at));
+  };
 
-    setSendingAll(false);
-  }, [contacts, sendMessageToContact, token, message]);
+  const cancelScheduled = (id: string) => {
+    setScheduled((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  // Takes everyone who can still be messaged at this moment, with the text saved when it was planned
+  const startScheduled = async (item: ScheduledRun) => {
+    if (runOpen) {
+      alert("Сначала завершите текущую рассылку");
+      return;
+    }
+    if (!token.trim()) {
+      setGlobalError("Запланированная рассылка ждёт токен VK API");
+      return;
+    }
+    const texts = runVariants(item);
+    const problem = variantsProblem(
+      texts,
+      texts.map((v) => parseTemplate(v.text)),
+      item.variantSplit ?? DEFAULT_VARIANT_SPLIT
+    );
+    if (problem) {
+      setScheduled((prev) => prev.map((s) => (s.id === item.id ? { ...s, error: problem } : s)));
+      setGlobalError(`Запланированная рассылка не запущена: ${problem}`);
+      return;
+    }
+    if (!(await ensureCommunity())) return;
+    cancelScheduled(item.id);
+    setGlobalError("");
+    const queue = contactStore.list().filter(isDeliverable).map((c) => c.id);
+    executeSendRun(createRun(item.template, queue, item));
+  };
+
+  const pauseRun = () => {
+    runControl.current?.pause();
+    setRun((prev) => (prev ? { ...prev, status: "paused" } : prev));
+  };
+
+  const resumeRun = async () => {
+    if (runControl.current) {
+      runControl.current.resume();
+      setRun((prev) => (prev ? { ...prev, status: "running" } : prev));
+      return;
+    }
+    // Interrupted by a reload or a token/captcha failure: start the loop again from the cursor
+    if (!token.trim()) {
+      alert("Введите токен VK API");
+      return;
+    }
+    if (run) {
+      setGlobalError("");
+      if (await ensureCommunity()) executeSendRun(run);
+    }
+  };
+
+  const stopRun = () => {
+    if (runControl.current) {
+      runControl.current.stop();
+    } else {
+      setRun((prev) => (prev ? { ...prev, status: "stopped" } : prev));
+    }
+  };
+
+  // Edits (with a corrected template) or deletes the selected sent messages. Rows that fail stay
+  // selected, so the action can be repeated for just them.
+  const applySentAction = async (action: SentAction, source = "") => {
+    if (!token.trim()) {
+      alert("Введите токен VK API");
+      return;
+    }
+    const targets = contactStore.list().filter((c) => selectedSent.has(c.id) && sentActionProblem(c) === null);
+    if (targets.length === 0) return;
+    setGlobalError("");
+
+    const results: SentActionResult[] = [];
+    const texts = new Map<string, string>();
+    const items: { contact: Contact; text: string; keyboard?: string }[] = [];
+    if (action === "edit") {
+      const template = parseTemplate(source, knownVars);
+      if (template.error) {
+        setGlobalError(formatTemplateError(template.error));
+        return;
+      }
+      for (const contact of targets) {
+        const { text, error } = processMessage(template, contact);
+        if (error) results.push({ contactId: contact.id, ok: false, error });
+        else {
+          texts.set(contact.id, text);
+          items.push({ contact, text, keyboard: keyboardJson });
+        }
+      }
+    }
+    if (!(await ensureCommunity())) return;
+
+    const limiter = createRateLimiter(rateLimits.settings);
+    sentActionStopped.current = false;
+    setSentProgress({ action, done: results.length, total: targets.length });
+    const options = {
+      groupId: community.enabled ? parseGroupId(community.groupId) ?? undefined : undefined,
+      wait: async (cancelled: () => boolean) => {
+        const go = await limiter.wait(cancelled);
+        if (go) limiter.record(true);
+        return go;
+      },
+      cancelled: () => sentActionStopped.current,
+      onResult: (result: SentActionResult) => {
+        results.push(result);
+        setSentProgress((prev) => (prev ? { ...prev, done: prev.done + 1 } : prev));
+        if (!result.ok) return;
+        updateContact(
+          result.contactId,
+          action === "edit" ? { sentText: texts.get(result.contactId), editedAt: Date.now() } : { deletedAt: Date.now() }
+        );
+      },
+    };
+    try {
+      if (action === "edit") await editSentMessages(vk, items, options);
+      else await deleteSentMessages(vk, targets, options);
+    } catch (err) {
+      const label = action === "edit" ? "Исправление" : "Удаление";
+      setGlobalError(`${label} остановлено: ${err instanceof Error ? err.message : "ошибка API"}`);
+    } finally {
+      setSentProgress(null);
+      setSentResults({ action, results });
+      setSelectedSent(new Set(results.filter((r) => !r.ok).map((r) => r.contactId)));
+    }
+  };
+
+  const toggleSentSelection = (id: string) => {
+    setSelectedSent((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exportReport = (format: ReportFormat) => {
+    try {
+      downloadTable(buildReport(contactStore.list(), pickTemplate), format, reportFileName(fileName, format));
+    } catch {
+      setGlobalError("Не удалось сохранить отчёт");
+    }
+  };
+
+  const updateOptOut = (list: OptOutEntry[]) => {
+    setOptOut(list);
+    if (!saveOptOut(list)) setGlobalError("Не удалось сохранить стоп-лист: хранилище браузера недоступно");
+    setContacts((prev) => applyOptOut(prev, list));
+  };
+
+  const addContactToOptOut = (contact: Contact) => {
+    updateOptOut(addToOptOut(optOut, [entryFromContact(contact)]));
+  };
 
+  // The operator picked or approved the gender; it is no longer a guess
+  const confirmGender = (gender: Gender): Partial<Contact> => ({
+    gender,
+    genderSource: gender ? "confirmed" : undefined,
+    genderConfidence: undefined,
+    genderBasis: undefined,
+  });
+
+  const mergeRepeats = () => {
+    setContacts((prev) => mergeDuplicates(prev, findDuplicates(prev)));
+  };
+
+  // The list itself stays in the history; the next import starts a new campaign
   const clearContacts = () => {
+    const done = counts.sent + counts.error > 0;
+    if (historyError && done && !confirm("Результаты рассылки будут удалены. Сначала сохраните отчёт, если он нужен. Очистить?")) return;
+    flushCampaign();
+    runControl.current?.stop();
     setContacts([]);
+    setCampaign(null);
+    setRun(null);
+    setCheckedAs(null);
     setFileName("");
     setFileError("");
     setGlobalError("");
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const sentCount = contacts.filter((c) => c.status === "sent").length;
-  const errorCount = contacts.filter((c) => c.status === "error").length;
+  // Puts a campaign from the history into the editor; whatever was open is already saved there
+  const showCampaign = (c: Campaign) => {
+    runControl.current?.stop();
+    setRun(null);
+    setCampaign({ id: c.id, name: c.name, createdAt: c.createdAt });
+    setMessage(c.message);
+    setFileName(c.fileName);
+    setKeyboard(c.keyboard ?? null);
+    setAttachments(c.attachments ?? []);
+    setAttachmentColumn(c.attachmentColumn ?? "");
+    setVariants(c.variants ?? []);
+    setVariantSplit(c.variantSplit ?? DEFAULT_VARIANT_SPLIT);
+    setActiveVariant(0);
+    setContacts(applyOptOut(c.contacts, optOutRef.current));
+    setDuplicatesDismissed(false);
+    setCheckedAs(null);
+    setProfilesDismissed(false);
+    setSelectedSent(new Set());
+    setSentResults(null);
+    setReplyFilter("all");
+    setWatchReplies(false);
+    setRepliesCheckedAt(null);
+    setFileError("");
+    setGlobalError("");
+    setHistoryOpen(false);
+  };
+
+  const openCampaign = async (id: string, duplicate?: { onlyFailed: boolean }) => {
+    try {
+      await flushCampaign();
+      const stored = await loadCampaign(id);
+      if (!stored) {
+        setHistoryError("Кампания не найдена — возможно, её удалили в другой вкладке");
+        return;
+      }
+      const next = duplicate ? duplicateCampaign(stored, duplicate.onlyFailed) : stored;
+      if (duplicate) await storeCampaign(next);
+      showCampaign(next);
+    } catch {
+      setHistoryError("Не удалось открыть кампанию");
+    }
+  };
+
+  const removeCampaign = async (id: string) => {
+    const target = campaigns.find((c) => c.id === id);
+    if (!target || !confirm(`Удалить кампанию «${target.name}» из истории?`)) return;
+    try {
+      await deleteCampaign(id);
+      setCampaigns((prev) => prev.filter((c) => c.id !== id));
+    } catch {
+      setHistoryError("Не удалось удалить кампанию");
+    }
+  };
+
+  const sentCount = counts.sent;
+  const errorCount = counts.error;
+  const runOpen = !!run && (run.status === "running" || run.status === "paused");
+  // Counted as the cursor moves rather than on every status change
+  const runQueue = run?.queue;
+  const runCursor = run?.cursor ?? 0;
+  const runRemaining = useMemo(
+    () =>
+      runQueue
+        ? runQueue.slice(runCursor).filter((id) => {
+            const c = contactStore.get(id);
+            return c && c.vkId !== "—" && c.status !== "sent";
+          }).length
+        : 0,
+    [contactStore, runQueue, runCursor]
+  );
+  // The limiter knows the caps; the run's own history knows about captchas and slow responses
+  const limiter = limiterRef.current;
+  const runEta = run
+    ? Math.max(limiter?.estimateMs(runRemaining) ?? 0, estimateRemainingMs(run, runRemaining) ?? 0) || null
+    : null;
+  const runRate = limiter && Number.isFinite(limiter.currentRate()) ? limiter.currentRate() : null;
+  const unresolvedCount = counts.unresolved;
+  const skippedCount = counts.skipped;
+  const genderReviewCount = counts.genderReview;
+  const genderReviewIds = contactStore.members("genderReview");
+  const trackedIds = contactStore.members("tracked");
+  // Positions of the rows the filters let through, or null when they let every row through
+  const visibleRows = useMemo(() => {
+    const review = genderReviewOnly && genderReviewIds.length > 0 ? new Set(genderReviewIds) : null;
+    const tracked = replyFilter === "all" ? null : new Set(trackedIds);
+    if (!review && !tracked) return null;
+    const rows: number[] = [];
+    contactIds.forEach((id, idx) => {
+      if (review && !review.has(id)) return;
+      if (tracked && !(tracked.has(id) && matchesReplyFilter(contactStore.get(id)!, replyFilter))) return;
+      rows.push(idx);
+    });
+    return rows;
+  }, [contactStore, contactIds, genderReviewOnly, genderReviewIds, replyFilter, trackedIds]);
+  const visibleCount = visibleRows ? visibleRows.length : contactIds.length;
+  const table = useVirtualRows(visibleCount, TABLE_ROW_HEIGHT);
+  const tableRows = Array.from({ length: table.end - table.start }, (_, i) => {
+    const idx = visibleRows ? visibleRows[table.start + i] : table.start + i;
+    return { contact: contactStore.get(contactIds[idx])!, idx };
+  });
+  const unavailableCount = counts.unavailable;
+  const editableSent = useMemo(
+    () => trackedIds.filter((id) => sentActionProblem(contactStore.get(id)!) === null),
+    [contactStore, trackedIds]
+  );
+  const selectedSentCount = useMemo(
+    () => editableSent.filter((id) => selectedSent.has(id)).length,
+    [editableSent, selectedSent]
+  );
+  const deliverableCount = counts.deliverable;
+  // Recounted when a row's group changes (sent, failed, read), not on every status update
+  const variantIds = contactStore.members("withVariant");
+  const variantStats = useMemo(
+    () =>
+      counts.withVariant > 0
+        ? variantResults(variantIds.map((id) => contactStore.get(id)!), variants.map((v) => v.name))
+        : [],
+    [contactStore, counts, variantIds, variants]
+  );
+  const duplicateGroups = useMemo(() => findDuplicates(contactList), [contactList]);
+  const profileDifferences = useMemo(() => summarizeDifferences(contactList), [contactList]);
+  const hasProfileDifferences = profileDifferences.some((d) => d.conflicts.length + d.missing.length > 0);
+  // Runs that fell due while the tab was closed are left for the operator rather than started days late
+  const dueRunId = scheduled.find((s) => s.at <= Date.now() && s.at >= openedAt && !s.error)?.id;
+  const startDueRun = useEffectEvent((id: string) => {
+    const item = scheduled.find((s) => s.id === id);
+    if (item) startScheduled(item);
+  });
+
+  // Also tried again once a token is entered
+  useEffect(() => {
+    if (dueRunId && !runOpen) startDueRun(dueRunId);
+  }, [dueRunId, runOpen, token]);
 
   // Generate preview of processed message for a contact
   const getPreview = (contact: Contact): string => {
     if (!message.trim()) return "";
-    const { text, error } = processMessage(message, contact);
+    const picked = pickTemplate(contact);
+    if (picked.error !== null) return `⚠ ${picked.error}`;
+    const { text, error } = processMessage(picked.template, contact);
     if (error) return `⚠ ${error}`;
-    return text;
+    return picked.variant ? `[${picked.variant}] ${text}` : text;
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
+      {captcha && (
+        <CaptchaModal
+          key={captcha.imageUrl}
+          imageUrl={captcha.imageUrl}
+          retry={captcha.retry}
+          onSubmit={(key) => answerCaptcha(key)}
+          onCancel={() => answerCaptcha(null)}
+        />
+      )}
+
+      {historyOpen && (
+        <CampaignHistory
+          campaigns={campaigns.map((c) => (c.id === campaign?.id ? { ...c, name: campaign.name } : c))}
+          currentId={campaign?.id ?? null}
+          onRename={(name) => setCampaign((prev) => (prev ? { ...prev, name } : prev))}
+          onOpen={(id) => openCampaign(id)}
+          onDuplicate={(id, onlyFailed) => openCampaign(id, { onlyFailed })}
+          onDelete={removeCampaign}
+          onClose={() => setHistoryOpen(false)}
+          error={historyError}
+          disabled={runOpen || !!sentProgress}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-sm border-b border-blue-100 sticky top-0 z-10">
         <div className="max-w-5xl mx-auto px-4 py-4 flex items-center gap-3">
@@ -360,9 +1325,17 @@ export function App() {
               <path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
             </svg>
           </div>
-          <div>
+          <div className="min-w-0">
             <h1 className="text-xl font-bold text-slate-800">Рассылка</h1>
+            {campaign && <p className="text-xs text-slate-400 truncate">{campaign.name}</p>}
           </div>
+          <button
+            type="button"
+            onClick={() => setHistoryOpen(true)}
+            className="ml-auto px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-sm text-slate-600 hover:bg-slate-50 transition-colors"
+          >
+            🗂 Кампании{campaigns.length > 0 && <span className="ml-1 text-slate-400">{campaigns.length}</span>}
+          </button>
         </div>
       </header>
 
@@ -373,24 +1346,88 @@ export function App() {
             <label className="block text-sm font-semibold text-slate-700 mb-2">
               📝 Текст сообщения
             </label>
-            <textarea
-              value={message}
-              onChange={(e) => { setMessage(e.target.value); setGlobalError(""); }}
+            <VariantsPanel
+              variants={variants}
+              onChange={setVariants}
+              baseText={message}
+              active={activeIndex}
+              onSelect={setActiveVariant}
+              invalid={parsedVariants.map((t) => !t.source.trim() || !!t.error)}
+              counts={variantCounts}
+              split={variantSplit}
+              onSplitChange={setVariantSplit}
+              columns={knownVars ? [...knownVars] : []}
+              disabled={runOpen}
+            />
+            <TemplateEditor
+              value={sendVariants[activeIndex].text}
+              onChange={(value) => {
+                if (activeIndex === 0) setMessage(value);
+                else setVariants((prev) => prev.map((v, i) => (i === activeIndex ? { ...v, text: value } : v)));
+                setGlobalError("");
+              }}
+              error={sendVariants[activeIndex].text.trim() ? activeTemplate.error : null}
               placeholder={"Привет, {имя}! Ты хорошо потрудил{М:ся|Ж:ась}..."}
-              rows={4}
-              className="w-full rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-slate-800 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all resize-none font-mono text-sm"
             />
             <div className="mt-2 flex flex-wrap gap-2 text-xs text-slate-500">
               <span className="bg-blue-50 text-blue-600 px-2 py-1 rounded-md font-mono">{"{"}<span className="font-bold">имя</span>{"}"}</span>
-              <span>- подставляет имя контакта</span>
+              <span>- подставляет имя контакта; так же работают {"{фамилия}"}, {"{фио}"} и любой столбец таблицы по заголовку, например {"{город}"}</span>
+            </div>
+            <div className="mt-1 flex flex-wrap gap-2 text-xs text-slate-500">
+              <span className="bg-blue-50 text-blue-600 px-2 py-1 rounded-md font-mono">{"{"}<span className="font-bold">имя</span>|коллега{"}"}</span>
+              <span>- значение по умолчанию, если ячейка пустая</span>
             </div>
             <div className="mt-1 flex flex-wrap gap-2 text-xs text-slate-500">
               <span className="bg-purple-50 text-purple-600 px-2 py-1 rounded-md font-mono">{"{"}<span className="font-bold">М:</span>значение<span className="font-bold">|Ж:</span>значение{"}"}</span>
               <span>- подставляет по полу (без пола по умолчанию подставляется значение для М)</span>
             </div>
+            <div className="mt-1 flex flex-wrap gap-2 text-xs text-slate-500">
+              <span className="bg-blue-50 text-blue-600 px-2 py-1 rounded-md font-mono">{"{"}<span className="font-bold">имя</span>:дат{"}"}</span>
+              <span>- имя в нужном падеже (род, дат, вин, твор, пред), так же {"{фамилия:род}"} и {"{фио:дат}"}; склоняется с учётом пола контакта</span>
+            </div>
+            <div className="mt-1 flex flex-wrap gap-2 text-xs text-slate-500">
+              <span className="bg-teal-50 text-teal-600 px-2 py-1 rounded-md font-mono">{"{{"}Привет<span className="font-bold">|</span>Здравствуй<span className="font-bold">|</span>Добрый день{"}}"}</span>
+              <span>- случайный вариант для каждого контакта (можно вкладывать), чтобы сообщения не были одинаковыми</span>
+            </div>
             <div className="mt-1 text-xs text-slate-400">
               Пример: <code className="bg-slate-100 px-1.5 py-0.5 rounded">Привет, {"{имя}"}! Ты хорошо потрудил{"{М:ся|Ж:ась}..."}</code>
+              {" "}Фигурные скобки и «|» как обычный текст: <code className="bg-slate-100 px-1.5 py-0.5 rounded">{"\\{ \\} \\|"}</code>
             </div>
+            {community.enabled && (
+              <div className="mt-3">
+                <KeyboardBuilder keyboard={keyboard} onChange={setKeyboard} disabled={runOpen} />
+              </div>
+            )}
+            <details className="group mt-3">
+              <summary className="cursor-pointer select-none text-xs font-semibold text-slate-600">
+                📎 Вложения
+                {attachments.length > 0 && <span className="ml-1 font-normal text-slate-400">({attachments.length})</span>}
+              </summary>
+              <div className="mt-2">
+                <AttachmentsPanel
+                  attachments={attachments}
+                  onChange={setAttachments}
+                  columns={knownVars ? [...knownVars] : []}
+                  column={attachmentColumn}
+                  onColumnChange={setAttachmentColumn}
+                  disabled={runOpen}
+                />
+              </div>
+            </details>
+            {activeTemplate.source.trim() && <VariationPanel template={activeTemplate} contacts={contactList} />}
+            {renderFailures.length > 0 && (
+              <div className="mt-3 bg-amber-50 text-amber-700 text-xs rounded-lg px-3 py-2 border border-amber-200 space-y-1">
+                <p className="font-medium">
+                  ⚠️ Для {renderFailures.length} контакт(ов) текст не собрать — им ничего не отправится, пока это не исправить:
+                </p>
+                {renderFailures.slice(0, 3).map(({ contact, error }) => (
+                  <p key={contact.id}>
+                    {contact.fullName || contact.rawLink}: {error}
+                  </p>
+                ))}
+                {renderFailures.length > 3 && <p>…и ещё {renderFailures.length - 3}</p>}
+              </div>
+            )}
           </div>
 
           {globalError && (
@@ -398,6 +1435,9 @@ export function App() {
               ⚠️ {globalError}
             </div>
           )}
+          {sessionError && (
+            <div className="bg-red-50 text-red-600 text-sm rounded-lg px-4 py-3 border border-red-200">⚠️ {sessionError}</div>
+          )}
 
           <div>
             <label className="block text-sm font-semibold text-slate-700 mb-2">
@@ -413,62 +1453,191 @@ export function App() {
             <p className="text-xs text-slate-400 mt-1">
               Токен с правами на отправку сообщений (messages).
             </p>
+            {tokenState && <TokenStatus state={tokenState} asCommunity={community.enabled} />}
+            <TokenVaultPanel token={token} saved={tokenSaved} onSavedChange={setTokenSaved} onUnlock={setToken} />
           </div>
+
+          <details className="group">
+            <summary className="cursor-pointer select-none text-sm font-semibold text-slate-700">
+              👥 Отправка от имени сообщества
+              {community.enabled && <span className="ml-1 font-normal text-slate-400">(включена)</span>}
+            </summary>
+            <div className="mt-3">
+              <CommunityPanel
+                settings={community}
+                onChange={setCommunity}
+                check={communityCheck?.key === communityKey ? communityCheck.result : null}
+                checking={checkingCommunity}
+                onCheck={() => {
+                  if (!token.trim()) {
+                    alert("Введите токен VK API");
+                    return;
+                  }
+                  setGlobalError("");
+                  ensureCommunity(true);
+                }}
+                disabled={runOpen}
+              />
+            </div>
+          </details>
+
+          <details className="group">
+            <summary className="cursor-pointer select-none text-sm font-semibold text-slate-700">
+              ⚙️ Скорость отправки
+            </summary>
+            <div className="mt-3">
+              <RateLimitPanel config={rateLimits} onChange={setRateLimits} disabled={sendingAll} />
+            </div>
+          </details>
+
+          <details className="group">
+            <summary className="cursor-pointer select-none text-sm font-semibold text-slate-700">
+              🕙 Расписание
+              {scheduled.length > 0 && <span className="ml-1 font-normal text-slate-400">({scheduled.length})</span>}
+            </summary>
+            <div className="mt-3">
+              <SchedulePanel
+                sendWindow={sendWindow}
+                onWindowChange={setSendWindow}
+                scheduled={scheduled}
+                openedAt={openedAt}
+                canSchedule={!!message.trim()}
+                onSchedule={scheduleRun}
+                onStart={(id) => {
+                  const item = scheduled.find((s) => s.id === id);
+                  if (item) startScheduled(item);
+                }}
+                onCancel={cancelScheduled}
+              />
+            </div>
+          </details>
+
+          <details className="group">
+            <summary className="cursor-pointer select-none text-sm font-semibold text-slate-700">
+              🚫 Стоп-лист{optOut.length > 0 && <span className="ml-1 font-normal text-slate-400">({optOut.length})</span>}
+            </summary>
+            <div className="mt-3">
+              <OptOutPanel list={optOut} onChange={updateOptOut} />
+            </div>
+          </details>
         </section>
 
         {/* File Upload */}
         <section className="bg-white rounded-2xl shadow-sm border border-slate-200/60 p-6">
           <label className="block text-sm font-semibold text-slate-700 mb-3">
-            📄 Загрузка Excel-файла
+            📄 Загрузка контактов
           </label>
-          <div className="flex items-center gap-4 flex-wrap">
-            <label className="cursor-pointer inline-flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl font-medium text-sm hover:from-blue-600 hover:to-indigo-700 transition-all shadow-md shadow-blue-200 active:scale-95">
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-              </svg>
-              Выбрать файл
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".xlsx,.xls"
-                onChange={handleFileUpload}
-                className="hidden"
-              />
-            </label>
-            {fileName && (
-              <span className="text-sm text-slate-500 flex items-center gap-1.5">
-                <svg className="w-4 h-4 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+          <div
+            tabIndex={0}
+            onPaste={handlePaste}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+            className={cn(
+              "rounded-xl border-2 border-dashed px-4 py-4 transition-colors focus:outline-none focus:border-blue-400 focus:bg-blue-50/40",
+              dragOver ? "border-blue-400 bg-blue-50/60" : "border-slate-200"
+            )}
+          >
+            <div className="flex items-center gap-4 flex-wrap">
+              <label className="cursor-pointer inline-flex items-center gap-2 px-5 py-2.5 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl font-medium text-sm hover:from-blue-600 hover:to-indigo-700 transition-all shadow-md shadow-blue-200 active:scale-95">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
                 </svg>
-                {fileName}
+                Выбрать файл
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={IMPORT_ACCEPT}
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
+              </label>
+              <span className="text-xs text-slate-400">
+                .xlsx, .xls, .ods, .csv, .tsv — или перетащите файл сюда, или щёлкните здесь и вставьте
+                скопированную таблицу (Ctrl+V)
               </span>
-            )}
-            {contacts.length > 0 && (
-              <button
-                onClick={clearContacts}
-                className="text-sm text-red-500 hover:text-red-600 underline underline-offset-2"
-              >
-                Очистить
-              </button>
+            </div>
+            {(fileName || contactIds.length > 0) && (
+              <div className="mt-3 flex items-center gap-4 flex-wrap">
+                {fileName && (
+                  <span className="text-sm text-slate-500 flex items-center gap-1.5">
+                    <svg className="w-4 h-4 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    {fileName}
+                  </span>
+                )}
+                {contactIds.length > 0 && (
+                  <span className="text-sm text-slate-500 flex items-center gap-2">
+                    Отчёт:
+                    <button
+                      onClick={() => exportReport("xlsx")}
+                      className="text-blue-600 hover:text-blue-700 underline underline-offset-2"
+                    >
+                      Excel
+                    </button>
+                    <button
+                      onClick={() => exportReport("csv")}
+                      className="text-blue-600 hover:text-blue-700 underline underline-offset-2"
+                    >
+                      CSV
+                    </button>
+                  </span>
+                )}
+                {contactIds.length > 0 && (
+                  <button
+                    onClick={clearContacts}
+                    className="text-sm text-red-500 hover:text-red-600 underline underline-offset-2"
+                  >
+                    Очистить
+                  </button>
+                )}
+              </div>
             )}
           </div>
           <p className="text-xs text-slate-400 mt-2">
-            Столбцы: <b>1</b> - Имя Фамилия, <b>2</b> - ссылка vk.com/id..., <b>3</b> — Пол (М/Ж, необязательно)
+            После загрузки укажите лист и назначение столбцов: Имя Фамилия (или отдельно Имя и Фамилия), ссылка ВК
+            (vk.com/id..., vk.com/короткое_имя, @упоминание), Пол (М/Ж, необязательно) и любые переменные для шаблона.
+            Настройка запоминается для файлов с такими же столбцами.
           </p>
+          {reading && (
+            <div className="mt-3 flex items-center gap-3 text-sm text-slate-500">
+              <span>
+                Читаем {reading.name}…{reading.percent !== null && ` ${reading.percent}%`}
+              </span>
+              <div className="h-1.5 w-40 rounded-full bg-slate-100 overflow-hidden">
+                <div
+                  className={cn("h-full bg-blue-500 transition-all", reading.percent === null && "animate-pulse")}
+                  style={{ width: `${reading.percent ?? 100}%` }}
+                />
+              </div>
+            </div>
+          )}
           {fileError && (
             <div className="mt-3 bg-red-50 text-red-600 text-sm rounded-lg px-4 py-2 border border-red-100">
               ⚠️ {fileError}
             </div>
           )}
+          {importSource && (
+            <ImportWizard
+              key={importKey}
+              source={importSource}
+              onConfirm={finishImport}
+              onCancel={() => setImportSource(null)}
+            />
+          )}
         </section>
 
         {/* Contacts List */}
-        {contacts.length > 0 && (
+        {contactIds.length > 0 && (
           <section className="bg-white rounded-2xl shadow-sm border border-slate-200/60 overflow-hidden">
             <div className="px-6 py-4 bg-slate-50 border-b border-slate-100 flex items-center justify-between flex-wrap gap-3">
               <div className="flex items-center gap-4 flex-wrap">
                 <h2 className="text-sm font-semibold text-slate-700">
-                  Контакты: <span className="text-blue-600">{contacts.length}</span>
+                  Контакты: <span className="text-blue-600">{contactIds.length}</span>
                 </h2>
                 {sentCount > 0 && (
                   <span className="text-xs bg-green-100 text-green-700 px-2.5 py-1 rounded-full font-medium">
@@ -480,10 +1649,68 @@ export function App() {
                     ✗ Ошибки: {errorCount}
                   </span>
                 )}
+                {unavailableCount > 0 && (
+                  <span className="text-xs bg-amber-100 text-amber-700 px-2.5 py-1 rounded-full font-medium">
+                    🔒 Недоступны: {unavailableCount}
+                  </span>
+                )}
+                {skippedCount > 0 && (
+                  <span className="text-xs bg-slate-100 text-slate-600 px-2.5 py-1 rounded-full font-medium">
+                    ⛔ Пропущено: {skippedCount}
+                  </span>
+                )}
+                {genderReviewCount > 0 && (
+                  <button
+                    onClick={() => setGenderReviewOnly((v) => !v)}
+                    className={cn(
+                      "text-xs px-2.5 py-1 rounded-full font-medium transition-colors",
+                      genderReviewOnly ? "bg-amber-500 text-white" : "bg-amber-100 text-amber-700 hover:bg-amber-200"
+                    )}
+                    title="Пол угадан по окончанию имени или с противоречием — проверьте перед отправкой"
+                  >
+                    ⚧ Проверить пол: {genderReviewCount}
+                  </button>
+                )}
+                {unresolvedCount > 0 && (
+                  <button
+                    onClick={() => resolveContacts(contactStore.list())}
+                    disabled={!!resolving || sendingAll}
+                    className="text-xs bg-amber-100 text-amber-700 px-2.5 py-1 rounded-full font-medium hover:bg-amber-200 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                    title="Преобразовать короткие имена в числовые ID"
+                  >
+                    {resolving
+                      ? `🔎 Определение ID: ${resolving.done}/${resolving.total}`
+                      : `🔎 Определить ID: ${unresolvedCount}`}
+                  </button>
+                )}
+                <button
+                  onClick={checkContacts}
+                  disabled={!!checking || !!resolving || sendingAll || !token.trim()}
+                  className="text-xs bg-indigo-100 text-indigo-700 px-2.5 py-1 rounded-full font-medium hover:bg-indigo-200 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                  title="Без отправки узнать, кому можно написать: удалённые страницы, закрытые сообщения"
+                >
+                  {checking ? `📡 Проверка: ${checking.done}/${checking.total}` : "📡 Проверить"}
+                </button>
+                <button
+                  onClick={loadProfiles}
+                  disabled={!!loadingProfiles || !!resolving || sendingAll || !token.trim()}
+                  className="text-xs bg-sky-100 text-sky-700 px-2.5 py-1 rounded-full font-medium hover:bg-sky-200 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                  title="Загрузить имя, фамилию и пол из профилей VK и сравнить с таблицей"
+                >
+                  {loadingProfiles
+                    ? `👤 Профили: ${loadingProfiles.done}/${loadingProfiles.total}`
+                    : "👤 Данные из VK"}
+                </button>
+                {checkedAs !== null && !checking && (
+                  <span className="text-xs text-slate-500">
+                    Можно написать: <b className="text-indigo-700">{deliverableCount}</b> из {contactIds.length}
+                    {checkedAs && ` от имени «${checkedAs}»`}
+                  </span>
+                )}
               </div>
               <button
                 onClick={sendAll}
-                disabled={sendingAll || !message.trim() || !token.trim()}
+                disabled={runOpen || checkingCommunity || !message.trim() || !token.trim()}
                 className="inline-flex items-center gap-2 px-5 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white rounded-xl font-medium text-sm hover:from-green-600 hover:to-emerald-700 transition-all shadow-md shadow-green-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {sendingAll ? (
@@ -505,33 +1732,131 @@ export function App() {
               </button>
             </div>
 
-            <div className="overflow-x-auto">
+            {duplicateGroups.length > 0 && !duplicatesDismissed && (
+              <DuplicatesPanel
+                groups={duplicateGroups}
+                rowOf={(c) => contactIds.indexOf(c.id) + 1}
+                disabled={runOpen}
+                onMerge={mergeRepeats}
+                onDismiss={() => setDuplicatesDismissed(true)}
+              />
+            )}
+
+            {hasProfileDifferences && !profilesDismissed && (
+              <ProfilePanel
+                differences={profileDifferences}
+                disabled={runOpen}
+                onAccept={(field) => acceptFromProfile(field)}
+                onDismiss={() => setProfilesDismissed(true)}
+              />
+            )}
+
+            {(editableSent.length > 0 || sentProgress || sentResults) && (
+              <SentActionsPanel
+                selectedCount={selectedSentCount}
+                selectableCount={editableSent.length}
+                onSelectAll={() => setSelectedSent(new Set(editableSent))}
+                onClearSelection={() => setSelectedSent(new Set())}
+                defaultText={message}
+                progress={sentProgress}
+                results={sentResults}
+                nameOf={(id) => {
+                  const c = contactStore.get(id);
+                  return c ? c.fullName || c.rawLink : "Удалённая строка";
+                }}
+                onEdit={(template) => applySentAction("edit", template)}
+                onDelete={() => applySentAction("delete")}
+                onStop={() => (sentActionStopped.current = true)}
+                disabled={sendingAll}
+              />
+            )}
+
+            {counts.tracked > 0 && (
+              <ReplyTrackingBar
+                tracked={counts.tracked}
+                read={counts.read}
+                replied={counts.replied}
+                matching={replyFilter === "all" ? contactIds.length : visibleCount}
+                filter={replyFilter}
+                onFilterChange={setReplyFilter}
+                autoRefresh={watchReplies}
+                onAutoRefreshChange={setWatchReplies}
+                progress={checkingReplies}
+                lastCheckedAt={repliesCheckedAt}
+                onRefresh={checkReplies}
+                onFollowUp={prepareFollowUp}
+                disabled={runOpen || !token.trim()}
+              />
+            )}
+
+            {variantStats.length > 0 && (
+              <VariantResults results={variantStats} tracking={counts.readChecked > 0} />
+            )}
+
+            {run && runOpen && (
+              <RunProgress
+                run={run}
+                etaMs={runEta}
+                ratePerMinute={runRate}
+                slowdown={limiterRef.current?.slowdown() ?? 1}
+                block={windowBlock(sendWindow) ?? limiterRef.current?.blockedUntil() ?? null}
+                live={sendingAll}
+                onPause={pauseRun}
+                onResume={resumeRun}
+                onStop={stopRun}
+              />
+            )}
+
+            <div ref={table.ref} className="overflow-auto max-h-[75vh]">
               <table className="w-full text-sm">
-                <thead>
+                <thead className="sticky top-0 z-10 bg-white">
                   <tr className="border-b border-slate-100">
                     <th className="text-left px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-10">№</th>
                     <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Имя Фамилия</th>
                     <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-28">Имя</th>
-                    <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-16">Пол</th>
+                    <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-24">Пол</th>
                     <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-24">VK ID</th>
                     <th className="text-left px-3 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider">Статус</th>
                     <th className="text-right px-4 py-3 text-xs font-semibold text-slate-500 uppercase tracking-wider w-36">Действия</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {contacts.map((contact, idx) => (
+                  {table.before > 0 && (
+                    <tr aria-hidden style={{ height: table.before }}>
+                      <td colSpan={7} />
+                    </tr>
+                  )}
+                  {tableRows.map(({ contact, idx }) => (
                     <tr
-                      key={`${contact.vkId}-${idx}`}
+                      key={contact.id}
+                      data-virtual-row
                       className={`border-b border-slate-50 transition-colors ${
                         contact.status === "sent"
                           ? "bg-green-50/50"
                           : contact.status === "error"
                           ? "bg-red-50/50"
+                          : contact.status === "skipped"
+                          ? "bg-slate-50 opacity-60"
+                          : contact.status === "unavailable"
+                          ? "bg-amber-50/50"
                           : "hover:bg-slate-50"
                       }`}
                     >
                       {/* № */}
-                      <td className="px-4 py-3 text-slate-400 font-mono text-xs">{idx + 1}</td>
+                      <td className="px-4 py-3 text-slate-400 font-mono text-xs">
+                        <label className="flex items-center gap-1.5">
+                          {sentActionProblem(contact) === null && (
+                            <input
+                              type="checkbox"
+                              checked={selectedSent.has(contact.id)}
+                              onChange={() => toggleSentSelection(contact.id)}
+                              disabled={!!sentProgress}
+                              title="Выбрать для исправления или удаления"
+                            />
+                          )}
+                          {idx + 1}
+                        </label>
+                      </td>
 
                       {/* Имя Фамилия */}
                       <td className="px-3 py-3 font-medium text-slate-800 text-xs">{contact.fullName}</td>
@@ -541,22 +1866,39 @@ export function App() {
                         <input
                           type="text"
                           value={contact.firstName}
-                          onChange={(e) => updateContact(idx, { firstName: e.target.value })}
+                          onChange={(e) => editContact(contact.id, { firstName: e.target.value })}
                           className="w-full px-2 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800"
                         />
+                        <ProfileHint
+                          contact={contact}
+                          field="firstName"
+                          onAccept={() => acceptFromProfile("firstName", contact.id)}
+                        />
                       </td>
 
                       {/* Пол */}
                       <td className="px-3 py-2">
                         <select
                           value={contact.gender}
-                          onChange={(e) => updateContact(idx, { gender: e.target.value as Gender })}
-                          className="w-full px-1 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800"
+                          onChange={(e) => editContact(contact.id, confirmGender(e.target.value as Gender))}
+                          className={cn(
+                            "w-full px-1 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800",
+                            needsGenderReview(contact) && "border-amber-400 bg-amber-50"
+                          )}
                         >
                           <option value="">—</option>
                           <option value="М">М</option>
                           <option value="Ж">Ж</option>
                         </select>
+                        <GenderSource
+                          contact={contact}
+                          onConfirm={() => editContact(contact.id, confirmGender(contact.gender))}
+                        />
+                        <ProfileHint
+                          contact={contact}
+                          field="gender"
+                          onAccept={() => acceptFromProfile("gender", contact.id)}
+                        />
                       </td>
 
                       {/* VK ID */}
@@ -570,20 +1912,31 @@ export function App() {
                           >
                             {contact.vkId}
                           </a>
+                        ) : contact.screenName && contact.status === "idle" ? (
+                          <span className="text-amber-500 text-xs" title="ID ещё не определён">?</span>
                         ) : (
                           <span className="text-red-400 text-xs">—</span>
                         )}
+                        {contact.rawLink && !/^\d+$/.test(contact.rawLink) && (
+                          <div
+                            className="mt-1 text-[10px] text-slate-400 font-mono truncate max-w-[9rem]"
+                            title={contact.rawLink}
+                          >
+                            {contact.rawLink}
+                          </div>
+                        )}
                       </td>
 
                       {/* Статус */}
                       <td className="px-3 py-3">
                         <button
-                          onClick={() => toggleStatus(idx)}
+                          onClick={() => toggleStatus(contact.id)}
+                          onMouseEnter={() => setPreviewId(contact.id)}
                           className="cursor-pointer hover:opacity-70 transition-opacity"
                           title={
-                            contact.status === "sent" || contact.status === "error"
+                            contact.status === "sent" || contact.status === "error" || contact.status === "unavailable"
                               ? "Нажмите, чтобы сбросить статус"
-                              : message.trim() ? `Превью: ${getPreview(contact)}` : undefined
+                              : message.trim() && previewId === contact.id ? `Превью: ${getPreview(contact)}` : undefined
                           }
                         >
                           {contact.status === "idle" && <span className="text-slate-400 text-xs">⏳ Ожидает</span>}
@@ -596,16 +1949,42 @@ export function App() {
                               Отправка...
                             </span>
                           )}
-                          {contact.status === "sent" && (
-                            <span className="text-green-600 text-xs font-medium flex items-center gap-1">
-                              ✅ Отправлено
+                          {contact.status === "sent" &&
+                            (contact.deletedAt ? (
+                              <span className="text-slate-500 text-xs">🗑 Удалено</span>
+                            ) : (
+                              <span className="text-green-600 text-xs font-medium flex items-center gap-1">
+                                ✅ Отправлено{contact.editedAt && <span className="font-normal text-slate-400">(изменено)</span>}
+                                {contact.variant && <span className="font-normal text-slate-400">· {contact.variant}</span>}
+                              </span>
+                            ))}
+                          {contact.status === "sent" && !contact.deletedAt && contact.readState && (
+                            <span
+                              className={cn(
+                                "mt-0.5 block text-left text-[11px]",
+                                contact.readState === "replied" ? "text-green-700" : "text-slate-400"
+                              )}
+                              title={contact.replyText}
+                            >
+                              {contact.readState === "delivered" && "✓ доставлено"}
+                              {contact.readState === "read" && "👁 прочитано"}
+                              {contact.readState === "replied" && `💬 ${contact.replyText?.slice(0, 40) || "ответил(а)"}`}
                             </span>
                           )}
                           {contact.status === "error" && (
-                            <span className="text-red-500 text-xs" title={contact.errorMsg}>
+                            <span
+                              className="text-red-500 text-xs"
+                              title={contact.errorCode ? `Код ${contact.errorCode}: ${contact.errorMsg}` : contact.errorMsg}
+                            >
                               ❌ {contact.errorMsg?.slice(0, 40)}
                             </span>
                           )}
+                          {contact.status === "skipped" && (
+                            <span className="text-slate-500 text-xs">⛔ {contact.skipReason}</span>
+                          )}
+                          {contact.status === "unavailable" && (
+                            <span className="text-amber-600 text-xs">🔒 {contact.skipReason}</span>
+                          )}
                         </button>
                       </td>
 
@@ -613,10 +1992,12 @@ export function App() {
                       <td className="px-4 py-3 text-right">
                         <div className="flex items-center justify-end gap-1.5">
                           <button
-                            onClick={() => sendMessage(idx)}
+                            onClick={() => sendMessage(contact.id)}
                             disabled={
                               contact.status === "sending" ||
                               contact.status === "sent" ||
+                              contact.status === "skipped" ||
+                              contact.status === "unavailable" ||
                               contact.vkId === "—" ||
                               sendingAll
                             }
@@ -627,9 +2008,19 @@ export function App() {
                             </svg>
                             Отправить
                           </button>
+                          {contact.status !== "skipped" && (contact.vkId !== "—" || contact.screenName) && (
+                            <button
+                              onClick={() => addContactToOptOut(contact)}
+                              disabled={contact.status === "sending"}
+                              className="inline-flex items-center justify-center w-7 h-7 text-slate-400 hover:text-white hover:bg-slate-500 rounded-lg transition-all active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed"
+                              title="В стоп-лист: больше никогда не писать"
+                            >
+                              🚫
+                            </button>
+                          )}
                           <button
-                            onClick={() => removeContact(idx)}
-                            disabled={contact.status === "sending" || sendingAll}
+                            onClick={() => removeContact(contact.id)}
+                            disabled={contact.status === "sending"}
                             className="inline-flex items-center justify-center w-7 h-7 text-red-400 hover:text-white hover:bg-red-500 rounded-lg transition-all active:scale-95 disabled:opacity-30 disabled:cursor-not-allowed"
                             title="Удалить"
                           >
@@ -641,28 +2032,51 @@ export function App() {
                       </td>
                     </tr>
                   ))}
+                  {table.after > 0 && (
+                    <tr aria-hidden style={{ height: table.after }}>
+                      <td colSpan={7} />
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
 
             {/* Preview section */}
-            {message.trim() && contacts.length > 0 && (
+            {message.trim() && contactIds.length > 0 && variants.length === 0 && (
               <div className="px-6 py-4 border-t border-slate-100 bg-slate-50/50">
                 <p className="text-xs font-semibold text-slate-500 mb-2">👁 Превью сообщения (для первого контакта):</p>
                 <div className="bg-white rounded-lg border border-slate-200 px-4 py-3 text-sm text-slate-700 whitespace-pre-wrap font-mono">
-                  {getPreview(contacts[0])}
+                  {getPreview(contactList[0])}
                 </div>
               </div>
             )}
+            {contactIds.length > 0 && variants.length > 0 && (
+              <div className="px-6 py-4 border-t border-slate-100 bg-slate-50/50 space-y-3">
+                {sendVariants.map((v, i) => {
+                  const contact = variantSamples[i];
+                  const { text, error } = processMessage(parsedVariants[i], contact);
+                  return (
+                    <div key={i}>
+                      <p className="text-xs font-semibold text-slate-500 mb-2">
+                        👁 Вариант {v.name} (для «{contact.fullName || contact.vkId}»):
+                      </p>
+                      <div className="bg-white rounded-lg border border-slate-200 px-4 py-3 text-sm text-slate-700 whitespace-pre-wrap font-mono">
+                        {error ? `⚠ ${error}` : text}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </section>
         )}
 
-        {contacts.length === 0 && !fileError && (
+        {contactIds.length === 0 && !fileError && !importSource && !reading && (
           <div className="text-center py-16 text-slate-400">
             <svg className="w-16 h-16 mx-auto mb-4 text-slate-200" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
               <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
             </svg>
-            <p className="text-sm">Загрузите Excel-файл, чтобы увидеть список контактов</p>
+            <p className="text-sm">Загрузите таблицу, чтобы увидеть список контактов</p>
           </div>
         )}
       </main>
@@ -0,0 +1,234 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { parseGroupId } from "../lib/community";
+import type { Contact } from "../lib/contact";
+import { deliverMessage } from "../lib/delivery";
+import { httpTransport } from "../lib/httpTransport";
+import { buildContacts, guessHeaderRow, guessMapping, mappingProblem, readImportFile } from "../lib/importer";
+import { createRateLimiter, RATE_LIMIT_PRESETS } from "../lib/rateLimiter";
+import { buildReport, tableToCsv } from "../lib/report";
+import { createRun, createRunControl, executeRun } from "../lib/sendRun";
+import { formatTemplateError, parseTemplate, processMessage } from "../lib/template";
+import type { TemplatePicker } from "../lib/variants";
+import { createVkClient } from "../lib/vkApi";
+import { applyScreenNames, resolveScreenNames } from "../lib/vkLinks";
+
+// vk-messages send: the page's import, templating, rate limiting and sending, run from a script.
+// Exit codes: 0 every row went out (or would, with --dry-run), 1 some row failed or the run
+// was stopped, 2 the arguments or the input files are wrong.
+
+const USAGE = `Использование:
+  vk-messages send --file список.xlsx --template сообщение.txt [параметры]
+
+Параметры:
+  --file <путь>         таблица с контактами: xlsx, xls, ods, csv, tsv или txt
+  --sheet <название>    лист книги (по умолчанию первый)
+  --header, --no-header первая строка — заголовок или уже контакт (по умолчанию угадывается)
+  --template <путь>     текст сообщения в формате шаблонов страницы
+  --token-env <имя>     переменная окружения с токеном (по умолчанию VK_TOKEN)
+  --group-id <id>       отправлять от имени сообщества
+  --preset <название>   скорость: personal или community (по умолчанию по типу отправки)
+  --log <путь>          журнал результатов, .json или .csv (по умолчанию рядом с таблицей)
+  --dry-run             собрать тексты и журнал, ничего не отправляя
+  --help                эта справка`;
+
+// Wrong arguments: reported with the usage text. Anything else that fails before
+// sending (a missing file, a template error) gets its message alone.
+class UsageError extends Error {}
+
+interface SendOptions {
+  file: string;
+  sheet?: string;
+  // Whether the first row holds column titles; undefined to guess as the import dialog does
+  header?: boolean;
+  template: string;
+  tokenEnv: string;
+  groupId: number | null;
+  preset: keyof typeof RATE_LIMIT_PRESETS;
+  log: string;
+  dryRun: boolean;
+}
+
+function parseOptions(args: string[]): SendOptions {
+  const { values } = parseArgs({
+    args,
+    options: {
+      file: { type: "string" },
+      sheet: { type: "string" },
+      header: { type: "boolean" },
+      "no-header": { type: "boolean" },
+      template: { type: "string" },
+      "token-env": { type: "string", default: "VK_TOKEN" },
+      "group-id": { type: "string" },
+      preset: { type: "string" },
+      log: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  if (!values.file) throw new UsageError("Укажите таблицу: --file");
+  if (!values.template) throw new UsageError("Укажите файл с текстом: --template");
+  if (values.header && values["no-header"]) throw new UsageError("Укажите что-то одно: --header или --no-header");
+
+  const groupId = values["group-id"] === undefined ? null : parseGroupId(values["group-id"]);
+  if (values["group-id"] !== undefined && groupId === null) throw new UsageError("--group-id: нужен числовой ID сообщества");
+  const preset = values.preset ?? (groupId === null ? "personal" : "community");
+  if (!(preset in RATE_LIMIT_PRESETS)) throw new UsageError(`--preset: ${preset}? Есть personal и community`);
+
+  const parsed = path.parse(values.file);
+  return {
+    file: values.file,
+    sheet: values.sheet,
+    header: values.header ? true : values["no-header"] ? false : undefined,
+    template: values.template,
+    tokenEnv: values["token-env"],
+    groupId,
+    preset: preset as SendOptions["preset"],
+    log: values.log ?? path.join(parsed.dir, `${parsed.name}.log.json`),
+    dryRun: values["dry-run"],
+  };
+}
+
+// The contacts, and the first row if it was read as column titles rather than as a contact
+async function loadContacts(options: SendOptions): Promise<{ contacts: Contact[]; header: string[] | null }> {
+  const data = await readFile(options.file);
+  const source = readImportFile(
+    data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+    path.basename(options.file)
+  );
+  const sheet = options.sheet ? source.sheets.find((s) => s.name === options.sheet) : source.sheets[0];
+  if (!sheet) throw new Error(`В файле нет листа «${options.sheet}»`);
+  // Columns are taken the way the import dialog would suggest them
+  const headerRow = options.header ?? guessHeaderRow(sheet.rows);
+  const mapping = guessMapping(sheet.rows, headerRow);
+  const problem = mappingProblem(mapping);
+  if (problem) throw new Error(`Не удалось разобрать столбцы таблицы: ${problem}`);
+  return { contacts: buildContacts(sheet.rows, mapping), header: headerRow && sheet.rows[0] ? sheet.rows[0] : null };
+}
+
+async function writeLog(file: string, rows: string[][]): Promise<void> {
+  if (/\.csv$/i.test(file)) {
+    await writeFile(file, tableToCsv(rows));
+    return;
+  }
+  const [header, ...body] = rows;
+  const records = body.map((row) => Object.fromEntries(header.map((title, i) => [title, row[i]])));
+  await writeFile(file, JSON.stringify(records, null, 2));
+}
+
+const log = (line: string) => process.stderr.write(`${line}\n`);
+
+async function send(options: SendOptions): Promise<number> {
+  const token = process.env[options.tokenEnv]?.trim() ?? "";
+  if (!token && !options.dryRun) throw new Error(`Токен не найден в переменной окружения ${options.tokenEnv}`);
+
+  const loaded = await loadContacts(options);
+  let contacts = loaded.contacts;
+  if (contacts.length === 0) throw new Error("В таблице не нашлось ни одного контакта");
+
+  const knownVars = new Set(contacts.flatMap((c) => Object.keys(c.vars ?? {})));
+  const text = await readFile(options.template, "utf8");
+  const template = parseTemplate(text.replace(/\s+$/, ""), knownVars);
+  if (!template.source.trim()) throw new Error("Файл с текстом пустой");
+  if (template.error) throw new Error(`Ошибка в шаблоне: ${formatTemplateError(template.error)}`);
+
+  const client = createVkClient({
+    token,
+    transport: httpTransport,
+    onRetry: (err, attempt, delayMs) => log(`  повтор ${attempt} через ${Math.round(delayMs / 1000)} с: ${err.message}`),
+  });
+
+  const unresolved = contacts.filter((c) => c.screenName && c.vkId === "—");
+  if (unresolved.length > 0 && token) {
+    log(`Определяем ID для ${unresolved.length} коротких имён...`);
+    contacts = applyScreenNames(contacts, await resolveScreenNames(client, unresolved.map((c) => c.screenName!)));
+  } else if (unresolved.length > 0) {
+    log(`Без токена не определить ID для ${unresolved.length} коротких имён — в журнале они останутся без ID`);
+  }
+
+  const queue = contacts.filter((c) => c.vkId !== "—" && c.status === "idle").map((c) => c.id);
+  const run = createRun(template.source, queue);
+  const pick: TemplatePicker = () => ({ template, error: null });
+  const byId = new Map(contacts.map((c) => [c.id, c]));
+  const update = (id: string, updates: Partial<Contact>) => byId.set(id, { ...byId.get(id)!, ...updates });
+
+  let stopped = false;
+  if (options.dryRun) {
+    for (const id of queue) {
+      const { error } = processMessage(template, byId.get(id)!);
+      if (error) update(id, { status: "error", errorMsg: error });
+    }
+  } else {
+    const control = createRunControl();
+    const limiter = createRateLimiter(RATE_LIMIT_PRESETS[options.preset]);
+    // Ctrl+C lets the message in flight finish and still writes the log
+    process.once("SIGINT", () => {
+      log("Останавливаем после текущего сообщения...");
+      control.stop();
+    });
+    let done = 0;
+    try {
+      const outcome = await executeRun(run, {
+        control,
+        limiter,
+        getItem: (id) => byId.get(id),
+        shouldSend: (c) => c.status === "idle",
+        send: (c, randomId) =>
+          deliverMessage(client, c, pick, {
+            randomId,
+            community: options.groupId === null ? undefined : { groupId: options.groupId },
+            onUpdate: (updates) => update(c.id, updates),
+          }),
+        onProgress: ({ cursor }) => {
+          const c = byId.get(queue[cursor - 1]);
+          if (!c) return;
+          done++;
+          const result = c.status === "sent" ? "отправлено" : `ошибка: ${c.errorMsg ?? ""}`;
+          log(`[${done}/${queue.length}] ${c.fullName || c.rawLink} — ${result}`);
+        },
+      });
+      stopped = outcome === "stopped";
+    } catch (err) {
+      // A dead token or a captcha: nothing further would go out either
+      log(`Рассылка остановлена: ${err instanceof Error ? err.message : String(err)}`);
+      stopped = true;
+    }
+  }
+
+  const results = contacts.map((c) => byId.get(c.id)!);
+  await writeLog(options.log, buildReport(results, pick));
+
+  const sent = results.filter((c) => c.status === "sent").length;
+  const failed = results.filter((c) => c.status === "error").length;
+  const summary = options.dryRun
+    ? `Готово к отправке: ${queue.filter((id) => byId.get(id)!.status === "idle").length}, с ошибками: ${failed}`
+    : `Отправлено: ${sent}, с ошибками: ${failed}${stopped ? ", рассылка прервана" : ""}`;
+  // A guessed header is the one row the log does not account for, so it is named
+  const header = loaded.header
+    ? `Первая строка пропущена как заголовок: ${loaded.header.join("; ")} (если это контакт, добавьте --no-header)\n`
+    : "";
+  process.stdout.write(`${header}${summary}\nЖурнал: ${options.log}\n`);
+  return failed > 0 || stopped ? 1 : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  if (!command || command === "--help" || args.includes("--help")) {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? 0 : 2;
+  }
+  if (command !== "send") throw new UsageError(`Неизвестная команда «${command}»`);
+  return send(parseOptions(args));
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (err) => {
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+      log(`${(err as Error).message}\n\n${USAGE}`);
+    } else {
+      log(err instanceof Error ? err.message : String(err));
+    }
+    process.exitCode = 2;
+  }
+);
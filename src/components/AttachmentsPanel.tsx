@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { MAX_ATTACHMENTS, parseMediaList, type Attachment } from "../lib/attachments";
+
+interface AttachmentsPanelProps {
+  attachments: Attachment[];
+  onChange: (attachments: Attachment[]) => void;
+  // Variables from the spreadsheet, any of which can hold per-row attachments
+  columns: string[];
+  column: string;
+  onColumnChange: (column: string) => void;
+  disabled?: boolean;
+}
+
+export function AttachmentsPanel({
+  attachments,
+  onChange,
+  columns,
+  column,
+  onColumnChange,
+  disabled,
+}: AttachmentsPanelProps) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState("");
+
+  const add = (items: Attachment[]) => {
+    const known = new Set(attachments.map((a) => a.media));
+    const next = [...attachments, ...items.filter((a) => !known.has(a.media))];
+    if (next.length > MAX_ATTACHMENTS) {
+      setError(`К сообщению можно приложить не больше ${MAX_ATTACHMENTS} вложений`);
+      return false;
+    }
+    onChange(next);
+    return true;
+  };
+
+  const addDraft = () => {
+    const { media, rejected } = parseMediaList(draft);
+    if (!add(media.map((m) => ({ media: m, label: m })))) return;
+    setDraft(rejected.join(" "));
+    setError(rejected.length > 0 ? `Не распознано: ${rejected.join(", ")}` : "");
+  };
+
+  return (
+    <div className="space-y-3 text-xs text-slate-500">
+      {attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {attachments.map((a) => (
+            <li
+              key={a.media}
+              className="flex items-center gap-1 rounded-md border border-slate-200 bg-slate-50 px-2 py-1"
+              title={a.media}
+            >
+              <span>{a.media.startsWith("photo") ? "🖼" : a.media.startsWith("doc") ? "📄" : "🔗"}</span>
+              <span className="max-w-[14rem] truncate text-slate-700">{a.label}</span>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange(attachments.filter((x) => x !== a))}
+                className="text-slate-400 hover:text-red-500"
+                title="Убрать"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addDraft()}
+          placeholder="photo-1_2, doc123_456 или ссылка vk.com/wall-1_2"
+          className="flex-1 min-w-[16rem] px-2 py-1.5 rounded-md border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400"
+        />
+        <button
+          type="button"
+          disabled={disabled || !draft.trim()}
+          onClick={addDraft}
+          className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+        >
+          Добавить
+        </button>
+      </div>
+
+      {columns.length > 0 && (
+        <label className="flex flex-wrap items-center gap-2">
+          Ещё вложения из столбца
+          <select
+            value={column}
+            disabled={disabled}
+            onChange={(e) => onColumnChange(e.target.value)}
+            className="px-2 py-1.5 rounded-md border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-400"
+          >
+            <option value="">— нет —</option>
+            {columns.map((c) => (
+              <option key={c} value={c}>
+                {`{${c}}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+      <p className="text-slate-400">
+        Вложения прикладываются ко всем сообщениям. Файл с компьютера отсюда не загрузить — VK не даёт странице
+        отправлять файлы на свои серверы. Сначала загрузите его в VK (фото в альбом, файл в «Документы») и вставьте
+        сюда ссылку на него. В столбце можно перечислить несколько вложений через запятую.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import type { CampaignSummary } from "../lib/campaigns";
+
+interface CampaignHistoryProps {
+  campaigns: CampaignSummary[];
+  // The campaign open in the editor, if the session belongs to one
+  currentId: string | null;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string, onlyFailed: boolean) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+  error: string;
+  // Set while a run or a bulk action is going: switching campaigns would cut it off
+  disabled?: boolean;
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toLocaleString("ru-RU", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+export function CampaignHistory({
+  campaigns,
+  currentId,
+  onRename,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onClose,
+  error,
+  disabled,
+}: CampaignHistoryProps) {
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-slate-900/20" onClick={onClose}>
+      <aside
+        className="h-full w-full max-w-sm overflow-y-auto bg-white shadow-xl border-l border-slate-200 p-4 space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-slate-700">🗂 Кампании</h2>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Закрыть">
+            ✕
+          </button>
+        </div>
+        {error && <p className="bg-red-50 text-red-600 text-xs rounded-lg px-3 py-2 border border-red-200">{error}</p>}
+        {disabled && (
+          <p className="text-xs text-amber-600">Дождитесь окончания рассылки, чтобы открыть другую кампанию.</p>
+        )}
+        {campaigns.length === 0 && (
+          <p className="text-xs text-slate-400">
+            Здесь появятся рассылки: каждая загруженная таблица сохраняется как кампания вместе со статусами.
+          </p>
+        )}
+
+        <ul className="space-y-2">
+          {campaigns.map((c) => {
+            const current = c.id === currentId;
+            return (
+              <li
+                key={c.id}
+                className={`rounded-xl border px-3 py-2 text-xs space-y-1 ${
+                  current ? "border-blue-300 bg-blue-50/50" : "border-slate-200 bg-white"
+                }`}
+              >
+                {current ? (
+                  <input
+                    type="text"
+                    value={c.name}
+                    onChange={(e) => onRename(e.target.value)}
+                    className="w-full px-2 py-1 rounded-md border border-slate-200 bg-white text-sm font-medium text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                ) : (
+                  <p className="text-sm font-medium text-slate-800 truncate" title={c.name}>
+                    {c.name}
+                  </p>
+                )}
+                <p className="text-slate-400 truncate" title={c.message}>
+                  {c.fileName || "без файла"} · {c.message.slice(0, 60) || "без текста"}
+                </p>
+                <p className="text-slate-500">
+                  {c.total} контакт(ов): <span className="text-green-700">{c.sent} отправлено</span>
+                  {c.failed > 0 && <span className="text-red-600">, {c.failed} с ошибкой</span>}
+                </p>
+                <p className="text-slate-400">
+                  {c.lastSentAt ? `Отправка: ${formatDate(c.firstSentAt!)} — ${formatDate(c.lastSentAt)}` : `Создана ${formatDate(c.createdAt)}`}
+                </p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1 pt-1">
+                  {current ? (
+                    <span className="text-blue-600 font-medium">Открыта</span>
+                  ) : (
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => onOpen(c.id)}
+                      className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    >
+                      Открыть
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => onDuplicate(c.id, false)}
+                    className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                    title="Новая кампания с тем же текстом и теми же контактами"
+                  >
+                    Повторить
+                  </button>
+                  {c.failed > 0 && (
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => onDuplicate(c.id, true)}
+                      className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                      title="Новая кампания только с контактами, которым не удалось отправить"
+                    >
+                      Только ошибки ({c.failed})
+                    </button>
+                  )}
+                  {!current && (
+                    <button
+                      type="button"
+                      onClick={() => onDelete(c.id)}
+                      className="ml-auto text-red-500 hover:text-red-600"
+                    >
+                      Удалить
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from "react";
+
+interface CaptchaModalProps {
+  imageUrl: string;
+  // The previous answer was rejected and VK sent a new captcha
+  retry: boolean;
+  onSubmit: (key: string) => void;
+  onCancel: () => void;
+}
+
+export function CaptchaModal({ imageUrl, retry, onSubmit, onCancel }: CaptchaModalProps) {
+  const [key, setKey] = useState("");
+  const [reloadTick, setReloadTick] = useState(0);
+
+  const src = reloadTick ? `${imageUrl}${imageUrl.includes("?") ? "&" : "?"}r=${reloadTick}` : imageUrl;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (key.trim()) onSubmit(key.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm px-4">
+      <form
+        onSubmit={submit}
+        className="w-full max-w-sm bg-white rounded-2xl shadow-xl border border-slate-200 p-6 space-y-4"
+      >
+        <div>
+          <h2 className="text-base font-bold text-slate-800">🤖 VK просит ввести капчу</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            Рассылка приостановлена. После ввода кода это же сообщение будет отправлено повторно, и рассылка
+            продолжится.
+          </p>
+        </div>
+
+        {retry && (
+          <div className="bg-amber-50 text-amber-700 text-xs rounded-lg px-3 py-2 border border-amber-200">
+            Код не подошёл, попробуйте ещё раз.
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={() => setReloadTick(Date.now())}
+          className="block mx-auto rounded-lg border border-slate-200 overflow-hidden hover:opacity-80 transition-opacity"
+          title="Нажмите, чтобы обновить картинку"
+        >
+          <img src={src} alt="Капча" className="h-12 min-w-[130px] object-contain bg-slate-50" />
+        </button>
+
+        <input
+          type="text"
+          autoFocus
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="Код с картинки"
+          className="w-full rounded-xl border border-slate-200 bg-slate-50 px-4 py-2.5 text-slate-800 placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm"
+        />
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 rounded-xl"
+          >
+            Остановить рассылку
+          </button>
+          <button
+            type="submit"
+            disabled={!key.trim()}
+            className="px-5 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl font-medium text-sm hover:from-blue-600 hover:to-indigo-700 transition-all shadow-md shadow-blue-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Продолжить
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
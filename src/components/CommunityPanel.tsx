@@ -0,0 +1,66 @@
+import { parseGroupId, type CommunityCheck, type CommunitySettings } from "../lib/community";
+
+interface CommunityPanelProps {
+  settings: CommunitySettings;
+  onChange: (settings: CommunitySettings) => void;
+  // Result of the last token check, null until one has run for the current token
+  check: CommunityCheck | null;
+  checking: boolean;
+  onCheck: () => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "px-2 py-1.5 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800 disabled:opacity-60";
+
+export function CommunityPanel({ settings, onChange, check, checking, onCheck, disabled }: CommunityPanelProps) {
+  const badGroupId = settings.groupId.trim() !== "" && parseGroupId(settings.groupId) === null;
+
+  return (
+    <div className="space-y-3 text-xs text-slate-500">
+      <label className="flex items-center gap-2 text-slate-700">
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        Отправлять от имени сообщества
+      </label>
+      {settings.enabled && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <span>ID сообщества</span>
+            <input
+              type="text"
+              disabled={disabled}
+              value={settings.groupId}
+              onChange={(e) => onChange({ ...settings, groupId: e.target.value })}
+              placeholder="12345 или club12345"
+              className={`${inputClass} w-44`}
+            />
+            <button
+              type="button"
+              onClick={onCheck}
+              disabled={checking || badGroupId}
+              className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              {checking ? "Проверяем..." : "Проверить токен"}
+            </button>
+          </div>
+          {badGroupId && <p className="text-amber-600">Укажите числовой ID: 12345, club12345 или -12345</p>}
+          {check?.ok && (
+            <p className="text-green-600">
+              ✓ Токен сообщества «{check.group.name}» (ID {check.group.id}), доступ к сообщениям есть
+            </p>
+          )}
+          {check && !check.ok && <p className="text-red-600">✗ {check.reason}</p>}
+          <p className="text-slate-400">
+            Нужен ключ доступа сообщества с правом «Сообщения сообщества». Писать можно только тем, кто разрешил
+            сообщения от сообщества или уже писал ему. Перед рассылкой токен проверяется автоматически.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
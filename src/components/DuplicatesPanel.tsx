@@ -0,0 +1,46 @@
+import type { Contact } from "../lib/contact";
+
+interface DuplicatesPanelProps {
+  groups: Contact[][];
+  // Row numbers as shown in the table, for pointing at the repeats
+  rowOf: (contact: Contact) => number;
+  disabled?: boolean;
+  onMerge: () => void;
+  onDismiss: () => void;
+}
+
+const SHOWN_GROUPS = 5;
+
+export function DuplicatesPanel({ groups, rowOf, disabled, onMerge, onDismiss }: DuplicatesPanelProps) {
+  const extra = groups.reduce((sum, g) => sum + g.length - 1, 0);
+
+  return (
+    <div className="mx-6 mt-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800 space-y-2">
+      <p className="font-medium">
+        👥 Повторы: {groups.length} {groups.length === 1 ? "человек встречается" : "человек встречаются"} в списке
+        несколько раз, лишних строк — {extra}. Каждый получит сообщение столько раз, сколько раз он в списке.
+      </p>
+      <ul className="space-y-0.5 text-amber-700">
+        {groups.slice(0, SHOWN_GROUPS).map((group) => (
+          <li key={group[0].id}>
+            {group[0].fullName || group[0].rawLink} — строки {group.map(rowOf).join(", ")}
+          </li>
+        ))}
+        {groups.length > SHOWN_GROUPS && <li>…и ещё {groups.length - SHOWN_GROUPS}</li>}
+      </ul>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={onMerge}
+          disabled={disabled}
+          className="px-3 py-1.5 rounded-lg bg-amber-500 text-white font-medium hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Объединить повторы
+        </button>
+        <button type="button" onClick={onDismiss} className="text-amber-700 hover:text-amber-900 underline underline-offset-2">
+          Оставить как есть
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { needsGenderReview, type Contact } from "../lib/contact";
+
+interface GenderSourceProps {
+  contact: Contact;
+  onConfirm: () => void;
+}
+
+const CONFIDENCE_LABELS = { high: "уверенно", medium: "вероятно", low: "наугад" } as const;
+
+// Under the gender select: where the value came from, and a way to accept a guess as is
+export function GenderSource({ contact, onConfirm }: GenderSourceProps) {
+  if (!contact.gender || !contact.genderSource) return null;
+
+  if (contact.genderSource === "given") {
+    return <div className="mt-0.5 text-[10px] text-slate-400">из таблицы</div>;
+  }
+  if (contact.genderSource === "confirmed") {
+    return <div className="mt-0.5 text-[10px] text-green-600">✓ проверен</div>;
+  }
+
+  const review = needsGenderReview(contact);
+  return (
+    <div className={`mt-0.5 flex items-center gap-1 text-[10px] ${review ? "text-amber-600" : "text-slate-400"}`}>
+      <span title={contact.genderBasis ? `Определён по: ${contact.genderBasis}` : undefined}>
+        угадан{contact.genderConfidence ? `, ${CONFIDENCE_LABELS[contact.genderConfidence]}` : ""}
+      </span>
+      <button
+        type="button"
+        onClick={onConfirm}
+        className="text-green-600 hover:text-green-700"
+        title="Пол указан верно"
+      >
+        ✓
+      </button>
+    </div>
+  );
+}
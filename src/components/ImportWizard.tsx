@@ -0,0 +1,257 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { buildInBackground } from "../lib/backgroundImport";
+import {
+  buildContacts,
+  columnCount,
+  columnLetter,
+  COLUMN_ROLE_LABELS,
+  countContacts,
+  defaultVarName,
+  guessHeaderRow,
+  guessMapping,
+  loadSavedMapping,
+  mappingProblem,
+  saveMapping,
+  type ColumnRole,
+  type ImportMapping,
+  type ImportSource,
+} from "../lib/importer";
+import { needsGenderReview, type Contact } from "../lib/contact";
+
+interface ImportWizardProps {
+  source: ImportSource;
+  onConfirm: (contacts: Contact[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+function initialMapping(rows: string[][]): ImportMapping {
+  return loadSavedMapping(rows) ?? guessMapping(rows, guessHeaderRow(rows));
+}
+
+const selectClass =
+  "w-full px-1 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800";
+
+export function ImportWizard({ source, onConfirm, onCancel }: ImportWizardProps) {
+  // Start on the first sheet that has anything in it
+  const [sheetIndex, setSheetIndex] = useState(() =>
+    Math.max(0, source.sheets.findIndex((s) => s.rows.length > 0))
+  );
+  const rows = source.sheets[sheetIndex]?.rows ?? [];
+  const [mapping, setMapping] = useState<ImportMapping>(() => initialMapping(rows));
+
+  const selectSheet = (index: number) => {
+    setSheetIndex(index);
+    setMapping(initialMapping(source.sheets[index]?.rows ?? []));
+  };
+
+  const setHeaderRow = (headerRow: boolean) => {
+    // Header cells give better guesses and variable names, so guess again
+    setMapping(guessMapping(rows, headerRow));
+  };
+
+  const setColumnRole = (col: number, role: ColumnRole) => {
+    setMapping((prev) => ({
+      ...prev,
+      columns: prev.columns.map((c, i) => {
+        if (i === col) {
+          return role === "variable"
+            ? { role, varName: c.varName ?? defaultVarName(prev.headerRow ? rows[0]?.[col] ?? "" : "", col) }
+            : { ...c, role };
+        }
+        // A single-column role moves from whichever column had it before
+        return c.role === role && role !== "variable" && role !== "ignore" ? { role: "ignore" } : c;
+      }),
+    }));
+  };
+
+  const setVarName = (col: number, varName: string) => {
+    setMapping((prev) => ({
+      ...prev,
+      columns: prev.columns.map((c, i) => (i === col ? { ...c, varName } : c)),
+    }));
+  };
+
+  const problem = mappingProblem(mapping);
+  const skip = mapping.headerRow ? 1 : 0;
+  // Only the preview rows are built here; the whole sheet goes through the worker on confirm
+  const preview = useMemo(
+    () => (mappingProblem(mapping) ? [] : buildContacts(rows.slice(0, skip + PREVIEW_ROWS), mapping)),
+    [rows, skip, mapping]
+  );
+  const total = useMemo(() => (mappingProblem(mapping) ? 0 : countContacts(rows, mapping)), [rows, mapping]);
+  const cols = columnCount(rows);
+  const body = rows.slice(skip, skip + PREVIEW_ROWS);
+
+  const [building, setBuilding] = useState<number | null>(null);
+  const [buildError, setBuildError] = useState("");
+  // A build still running when the wizard is closed must not load its contacts
+  const closed = useRef(false);
+  useEffect(() => {
+    closed.current = false;
+    return () => {
+      closed.current = true;
+    };
+  }, []);
+
+  const confirm = async () => {
+    if (problem || total === 0 || building !== null) return;
+    saveMapping(rows, mapping);
+    setBuilding(0);
+    setBuildError("");
+    try {
+      const contacts = await buildInBackground(rows, mapping, (done, all) =>
+        setBuilding(all > 0 ? Math.round((done / all) * 100) : 0)
+      );
+      if (!closed.current) onConfirm(contacts);
+    } catch (err) {
+      if (!closed.current) setBuildError(err instanceof Error ? err.message : "Не удалось собрать контакты");
+    } finally {
+      if (!closed.current) setBuilding(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-blue-100 bg-blue-50/30 p-4 space-y-4">
+      <div className="flex items-center gap-4 flex-wrap text-sm">
+        {source.sheets.length > 1 && (
+          <label className="flex items-center gap-2 text-slate-600">
+            Лист:
+            <select
+              value={sheetIndex}
+              onChange={(e) => selectSheet(Number(e.target.value))}
+              className="px-2 py-1 text-sm rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400"
+            >
+              {source.sheets.map((s, i) => (
+                <option key={s.name} value={i}>
+                  {s.name} ({s.rows.length})
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={mapping.headerRow}
+            onChange={(e) => setHeaderRow(e.target.checked)}
+            className="rounded"
+          />
+          Первая строка — заголовок
+        </label>
+      </div>
+
+      {cols === 0 ? (
+        <p className="text-sm text-slate-500">На этом листе нет данных.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-slate-200 bg-white">
+          <table className="text-xs min-w-full">
+            <thead>
+              <tr className="border-b border-slate-100 bg-slate-50">
+                {Array.from({ length: cols }, (_, col) => {
+                  const c = mapping.columns[col] ?? { role: "ignore" };
+                  return (
+                    <th key={col} className="px-2 py-2 align-top text-left font-normal min-w-[9rem]">
+                      <div className="text-[10px] font-semibold text-slate-400 mb-1">
+                        {columnLetter(col)}
+                        {mapping.headerRow && rows[0]?.[col] ? ` · ${rows[0][col]}` : ""}
+                      </div>
+                      <select
+                        value={c.role}
+                        onChange={(e) => setColumnRole(col, e.target.value as ColumnRole)}
+                        className={selectClass}
+                      >
+                        {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map((role) => (
+                          <option key={role} value={role}>
+                            {COLUMN_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      {c.role === "variable" && (
+                        <div className="mt-1 flex items-center font-mono text-slate-500">
+                          {"{"}
+                          <input
+                            type="text"
+                            value={c.varName ?? ""}
+                            onChange={(e) => setVarName(col, e.target.value)}
+                            className="w-full mx-0.5 px-1 py-0.5 text-xs rounded border border-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                          />
+                          {"}"}
+                        </div>
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {body.map((row, r) => (
+                <tr key={r} className="border-b border-slate-50">
+                  {Array.from({ length: cols }, (_, col) => (
+                    <td
+                      key={col}
+                      className={`px-2 py-1.5 text-slate-700 truncate max-w-[12rem] ${
+                        mapping.columns[col]?.role === "ignore" ? "opacity-40" : ""
+                      }`}
+                    >
+                      {row[col] ?? ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {problem ? (
+        <div className="bg-amber-50 text-amber-700 text-xs rounded-lg px-3 py-2 border border-amber-200">⚠️ {problem}</div>
+      ) : (
+        preview.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-slate-500">👁 Так будут выглядеть первые контакты:</p>
+            <div className="rounded-lg border border-slate-200 bg-white divide-y divide-slate-50 text-xs">
+              {preview.map((c) => (
+                <div key={c.id} className="px-3 py-1.5 flex flex-wrap gap-x-4 gap-y-0.5">
+                  <span className="font-medium text-slate-800">{c.fullName || "—"}</span>
+                  <span className="text-slate-500">имя: {c.firstName || "—"}</span>
+                  {c.lastName && <span className="text-slate-500">фамилия: {c.lastName}</span>}
+                  <span className="text-slate-500">
+                    пол: {c.gender || "—"}
+                    {c.genderSource === "inferred" && (needsGenderReview(c) ? " (угадан, проверьте)" : " (угадан)")}
+                  </span>
+                  <span className={c.status === "error" ? "text-red-500" : "text-blue-600 font-mono"}>
+                    {c.status === "error" ? c.errorMsg : c.screenName ? `@${c.screenName}` : `id${c.vkId}`}
+                  </span>
+                  {Object.entries(c.vars ?? {}).map(([k, v]) => (
+                    <span key={k} className="text-slate-400 font-mono">
+                      {`{${k}}`}={v || "∅"}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {buildError && (
+        <div className="bg-red-50 text-red-600 text-xs rounded-lg px-3 py-2 border border-red-100">⚠️ {buildError}</div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700 rounded-xl">
+          Отмена
+        </button>
+        <button
+          onClick={confirm}
+          disabled={!!problem || total === 0 || building !== null}
+          className="px-5 py-2 bg-gradient-to-r from-blue-500 to-indigo-600 text-white rounded-xl font-medium text-sm hover:from-blue-600 hover:to-indigo-700 transition-all shadow-md shadow-blue-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {building !== null ? `Собираем контакты... ${building}%` : `Загрузить контакты: ${total}`}
+        </button>
+      </div>
+    </div>
+  );
+}
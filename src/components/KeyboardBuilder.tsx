@@ -0,0 +1,213 @@
+import {
+  BUTTON_COLOR_LABELS,
+  BUTTON_TYPE_LABELS,
+  createButton,
+  createKeyboard,
+  keyboardProblem,
+  type KeyboardButton,
+  type KeyboardButtonColor,
+  type KeyboardButtonType,
+  type MessageKeyboard,
+} from "../lib/keyboard";
+
+interface KeyboardBuilderProps {
+  keyboard: MessageKeyboard | null;
+  onChange: (keyboard: MessageKeyboard | null) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "w-full px-2 py-1 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800 disabled:opacity-60";
+
+// Roughly how VK paints each colour, for the preview
+const COLOR_CLASSES: Record<KeyboardButtonColor, string> = {
+  primary: "bg-blue-500 text-white border-blue-500",
+  secondary: "bg-white text-blue-600 border-slate-200",
+  negative: "bg-red-500 text-white border-red-500",
+  positive: "bg-green-500 text-white border-green-500",
+};
+
+export function KeyboardBuilder({ keyboard, onChange, disabled }: KeyboardBuilderProps) {
+  if (!keyboard) {
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onChange(createKeyboard())}
+        className="text-xs text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+      >
+        ＋ Добавить клавиатуру к сообщению
+      </button>
+    );
+  }
+
+  const setRows = (rows: KeyboardButton[][]) => onChange({ ...keyboard, rows: rows.filter((row) => row.length > 0) });
+
+  const updateButton = (id: string, updates: Partial<KeyboardButton>) =>
+    setRows(keyboard.rows.map((row) => row.map((b) => (b.id === id ? { ...b, ...updates } : b))));
+
+  const removeButton = (id: string) => setRows(keyboard.rows.map((row) => row.filter((b) => b.id !== id)));
+
+  const addButton = (rowIndex: number) =>
+    setRows(keyboard.rows.map((row, i) => (i === rowIndex ? [...row, createButton()] : row)));
+
+  const problem = keyboardProblem(keyboard);
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 p-3 text-xs text-slate-500">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-medium text-slate-700">⌨️ Клавиатура</span>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            disabled={disabled}
+            checked={keyboard.inline}
+            onChange={() => onChange({ ...keyboard, inline: true })}
+          />
+          под сообщением
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            disabled={disabled}
+            checked={!keyboard.inline}
+            onChange={() => onChange({ ...keyboard, inline: false })}
+          />
+          вместо клавиатуры телефона
+        </label>
+        {!keyboard.inline && (
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              disabled={disabled}
+              checked={keyboard.oneTime}
+              onChange={(e) => onChange({ ...keyboard, oneTime: e.target.checked })}
+            />
+            скрыть после нажатия
+          </label>
+        )}
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(null)}
+          className="ml-auto text-slate-400 hover:text-red-500 disabled:opacity-50"
+        >
+          Убрать клавиатуру
+        </button>
+      </div>
+
+      {keyboard.rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex flex-wrap items-start gap-2">
+          {row.map((button) => (
+            <div key={button.id} className="w-52 space-y-1 rounded-md border border-slate-200 bg-slate-50 p-2">
+              <div className="flex gap-1">
+                <select
+                  disabled={disabled}
+                  value={button.type}
+                  onChange={(e) => updateButton(button.id, { type: e.target.value as KeyboardButtonType })}
+                  className={inputClass}
+                >
+                  {(Object.keys(BUTTON_TYPE_LABELS) as KeyboardButtonType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {BUTTON_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+                {button.type !== "open_link" && (
+                  <select
+                    disabled={disabled}
+                    value={button.color}
+                    onChange={(e) => updateButton(button.id, { color: e.target.value as KeyboardButtonColor })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(BUTTON_COLOR_LABELS) as KeyboardButtonColor[]).map((color) => (
+                      <option key={color} value={color}>
+                        {BUTTON_COLOR_LABELS[color]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => removeButton(button.id)}
+                  className="px-1 text-slate-400 hover:text-red-500"
+                  title="Удалить кнопку"
+                >
+                  ✕
+                </button>
+              </div>
+              <input
+                type="text"
+                disabled={disabled}
+                value={button.label}
+                onChange={(e) => updateButton(button.id, { label: e.target.value })}
+                placeholder="Надпись"
+                className={inputClass}
+              />
+              {button.type === "open_link" ? (
+                <input
+                  type="url"
+                  disabled={disabled}
+                  value={button.link ?? ""}
+                  onChange={(e) => updateButton(button.id, { link: e.target.value })}
+                  placeholder="https://..."
+                  className={inputClass}
+                />
+              ) : (
+                <input
+                  type="text"
+                  disabled={disabled}
+                  value={button.payload ?? ""}
+                  onChange={(e) => updateButton(button.id, { payload: e.target.value })}
+                  placeholder="Данные для бота (необязательно)"
+                  className={inputClass}
+                />
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => addButton(rowIndex)}
+            className="self-center px-2 py-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            title="Добавить кнопку в этот ряд"
+          >
+            ＋
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setRows([...keyboard.rows, [createButton()]])}
+        className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+      >
+        ＋ Новый ряд
+      </button>
+
+      <div className="space-y-1 rounded-md bg-slate-100 p-2">
+        {keyboard.rows.map((row, rowIndex) => (
+          <div key={rowIndex} className="flex gap-1">
+            {row.map((button) => (
+              <span
+                key={button.id}
+                className={`flex-1 truncate rounded-md border px-2 py-1 text-center ${
+                  button.type === "open_link" ? COLOR_CLASSES.secondary : COLOR_CLASSES[button.color]
+                }`}
+              >
+                {button.type === "open_link" && "🔗 "}
+                {button.label || "…"}
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+      {problem && <p className="text-amber-600">⚠️ {problem}</p>}
+      <p className="text-slate-400">
+        Нажатие кнопки «Текст» отправляет её надпись в диалог; «Callback» приходит только боту сообщества через Callback
+        API или Long Poll и требует включённых возможностей ботов.
+      </p>
+    </div>
+  );
+}
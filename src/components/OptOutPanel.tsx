@@ -0,0 +1,122 @@
+import { useRef, useState } from "react";
+import { readInBackground } from "../lib/backgroundImport";
+import { IMPORT_ACCEPT } from "../lib/importer";
+import {
+  addToOptOut,
+  optOutLink,
+  optOutRows,
+  parseOptOutCells,
+  type OptOutEntry,
+} from "../lib/optOut";
+import { downloadTable } from "../lib/report";
+
+interface OptOutPanelProps {
+  list: OptOutEntry[];
+  onChange: (list: OptOutEntry[]) => void;
+}
+
+export function OptOutPanel({ list, onChange }: OptOutPanelProps) {
+  const [draft, setDraft] = useState("");
+  const [notice, setNotice] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const add = (cells: string[]) => {
+    const { entries, rejected } = parseOptOutCells(cells);
+    const next = addToOptOut(list, entries);
+    onChange(next);
+    const parts = [`Добавлено: ${next.length - list.length}`];
+    if (rejected > 0) parts.push(`не распознано: ${rejected}`);
+    setNotice(parts.join(", "));
+  };
+
+  const addDraft = () => {
+    add(draft.split(/[\s,;]+/));
+    setDraft("");
+  };
+
+  const importFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file
+      .arrayBuffer()
+      .then((data) => readInBackground({ fileName: file.name, data }))
+      .then(
+        (source) => add(source.sheets.flatMap((sheet) => sheet.rows.flat())),
+        () => setNotice("Не удалось прочитать файл")
+      );
+    e.target.value = "";
+  };
+
+  const remove = (entry: OptOutEntry) => onChange(list.filter((e) => e !== entry));
+
+  return (
+    <div className="space-y-3 text-xs">
+      <p className="text-slate-500">
+        Этим людям сообщения не отправляются никогда — ни при «Отправить всем», ни по кнопке в строке. Список хранится в
+        браузере и действует для всех файлов.
+      </p>
+      <div className="flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          placeholder="Ссылки через пробел или с новой строки: vk.com/id1, @durov..."
+          className="flex-1 px-2 py-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800 resize-none"
+        />
+        <button
+          type="button"
+          onClick={addDraft}
+          disabled={!draft.trim()}
+          className="self-start px-3 py-1.5 rounded-lg bg-slate-700 text-white hover:bg-slate-800 disabled:opacity-50"
+        >
+          Добавить
+        </button>
+      </div>
+      <div className="flex items-center gap-3 flex-wrap">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="text-blue-600 hover:text-blue-700 underline underline-offset-2"
+        >
+          Загрузить из файла
+        </button>
+        <input ref={fileInputRef} type="file" accept={IMPORT_ACCEPT} onChange={importFile} className="hidden" />
+        {list.length > 0 && (
+          <button
+            type="button"
+            onClick={() => downloadTable(optOutRows(list), "csv", "стоп-лист.csv")}
+            className="text-blue-600 hover:text-blue-700 underline underline-offset-2"
+          >
+            Сохранить в CSV
+          </button>
+        )}
+        {notice && <span className="text-slate-500">{notice}</span>}
+      </div>
+      {list.length > 0 && (
+        <ul className="max-h-48 overflow-y-auto rounded-lg border border-slate-200 bg-white divide-y divide-slate-50">
+          {list.map((entry) => (
+            <li key={entry.vkId ?? entry.screenName} className="px-3 py-1.5 flex items-center gap-3">
+              <a
+                href={optOutLink(entry)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-mono text-blue-600 hover:text-blue-700"
+              >
+                {entry.vkId ? `id${entry.vkId}` : `@${entry.screenName}`}
+              </a>
+              {entry.name && <span className="text-slate-600 truncate">{entry.name}</span>}
+              <button
+                type="button"
+                onClick={() => remove(entry)}
+                className="ml-auto text-slate-400 hover:text-red-500"
+                title="Убрать из стоп-листа"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
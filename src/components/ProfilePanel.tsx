@@ -0,0 +1,69 @@
+import type { Contact } from "../lib/contact";
+import { PROFILE_FIELD_LABELS, profileDifference, type FieldDifferences, type ProfileField } from "../lib/profiles";
+
+interface ProfilePanelProps {
+  differences: FieldDifferences[];
+  disabled?: boolean;
+  onAccept: (field: ProfileField) => void;
+  onDismiss: () => void;
+}
+
+const EXAMPLES = 3;
+
+export function ProfilePanel({ differences, disabled, onAccept, onDismiss }: ProfilePanelProps) {
+  const fields = differences.filter((d) => d.conflicts.length + d.missing.length > 0);
+
+  return (
+    <div className="mx-6 mt-4 rounded-xl border border-sky-200 bg-sky-50 px-4 py-3 text-xs text-slate-700 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-medium text-sky-800">👤 Данные из профилей VK отличаются от таблицы</p>
+        <button type="button" onClick={onDismiss} className="text-sky-700 hover:text-sky-900 underline underline-offset-2">
+          Скрыть
+        </button>
+      </div>
+      {fields.map(({ field, conflicts, missing }) => (
+        <div key={field} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span className="font-semibold w-16">{PROFILE_FIELD_LABELS[field]}</span>
+          {conflicts.length > 0 && <span className="text-amber-700">не совпадает: {conflicts.length}</span>}
+          {missing.length > 0 && <span className="text-slate-500">пусто в таблице: {missing.length}</span>}
+          <span className="text-slate-400 truncate max-w-[22rem]">
+            {conflicts
+              .slice(0, EXAMPLES)
+              .map((c) => `${c[field] || "—"} → ${profileDifference(c, field)}`)
+              .join(", ")}
+          </span>
+          <button
+            type="button"
+            onClick={() => onAccept(field)}
+            disabled={disabled}
+            className="ml-auto px-2.5 py-1 rounded-lg bg-sky-600 text-white font-medium hover:bg-sky-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Взять из VK: {conflicts.length + missing.length}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ProfileHintProps {
+  contact: Contact;
+  field: ProfileField;
+  onAccept: () => void;
+}
+
+// Under a table cell: the VK value when it differs, click to take it for this row only
+export function ProfileHint({ contact, field, onAccept }: ProfileHintProps) {
+  const vkValue = contact.status === "sent" ? null : profileDifference(contact, field);
+  if (vkValue === null) return null;
+  return (
+    <button
+      type="button"
+      onClick={onAccept}
+      className="mt-0.5 block text-[10px] text-amber-600 hover:text-amber-700 truncate max-w-full"
+      title="Взять значение из профиля VK"
+    >
+      VK: {vkValue}
+    </button>
+  );
+}
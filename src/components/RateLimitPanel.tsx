@@ -0,0 +1,130 @@
+import {
+  RATE_LIMIT_PRESETS,
+  type RateLimitPreset,
+  type RateLimitSettings,
+} from "../lib/rateLimiter";
+
+export interface RateLimitConfig {
+  preset: RateLimitPreset;
+  settings: RateLimitSettings;
+}
+
+interface RateLimitPanelProps {
+  config: RateLimitConfig;
+  onChange: (config: RateLimitConfig) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "w-full px-2 py-1.5 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800 disabled:opacity-60";
+
+export function RateLimitPanel({ config, onChange, disabled }: RateLimitPanelProps) {
+  const { settings } = config;
+
+  const setField = (field: keyof RateLimitSettings, value: number) => {
+    const next = { ...settings, [field]: Number.isFinite(value) && value >= 0 ? value : 0 };
+    onChange({ preset: "custom", settings: next });
+  };
+
+  const setPreset = (preset: RateLimitPreset) => {
+    onChange(preset === "custom" ? { preset, settings } : { preset, settings: RATE_LIMIT_PRESETS[preset] });
+  };
+
+  // Shown as "one message every N seconds", which is easier to reason about than 0.2/s
+  const intervalSec = settings.perSecond > 0 ? Math.round((1 / settings.perSecond) * 100) / 100 : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(
+          [
+            ["personal", "Личный токен"],
+            ["community", "Токен сообщества"],
+            ["custom", "Свои настройки"],
+          ] as const
+        ).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            disabled={disabled}
+            onClick={() => setPreset(value)}
+            className={`px-3 py-1.5 text-xs rounded-lg border transition-colors disabled:opacity-60 ${
+              config.preset === value
+                ? "bg-blue-50 border-blue-300 text-blue-700 font-medium"
+                : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-xs text-slate-500">
+        <label className="space-y-1">
+          <span>Интервал, с</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            disabled={disabled}
+            value={intervalSec}
+            onChange={(e) => {
+              const sec = parseFloat(e.target.value);
+              setField("perSecond", sec > 0 ? 1 / sec : 0);
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>В час (0 — без лимита)</span>
+          <input
+            type="number"
+            min={0}
+            disabled={disabled}
+            value={settings.perHour}
+            onChange={(e) => setField("perHour", parseInt(e.target.value, 10))}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>В сутки (0 — без лимита)</span>
+          <input
+            type="number"
+            min={0}
+            disabled={disabled}
+            value={settings.perDay}
+            onChange={(e) => setField("perDay", parseInt(e.target.value, 10))}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>Случайная пауза, с</span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              disabled={disabled}
+              value={settings.jitterMinMs / 1000}
+              onChange={(e) => setField("jitterMinMs", parseFloat(e.target.value) * 1000)}
+              className={inputClass}
+            />
+            <span>–</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              disabled={disabled}
+              value={settings.jitterMaxMs / 1000}
+              onChange={(e) => setField("jitterMaxMs", parseFloat(e.target.value) * 1000)}
+              className={inputClass}
+            />
+          </div>
+        </label>
+      </div>
+      <p className="text-xs text-slate-400">
+        При ошибках «слишком много запросов» (6) и «flood control» (9) скорость автоматически снижается и
+        постепенно восстанавливается после серии успешных отправок.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import type { ReplyFilter } from "../lib/replies";
+
+interface ReplyTrackingBarProps {
+  tracked: number;
+  read: number;
+  replied: number;
+  // Rows the current filter leaves in the table
+  matching: number;
+  filter: ReplyFilter;
+  onFilterChange: (filter: ReplyFilter) => void;
+  autoRefresh: boolean;
+  onAutoRefreshChange: (on: boolean) => void;
+  progress: { done: number; total: number } | null;
+  lastCheckedAt: number | null;
+  onRefresh: () => void;
+  onFollowUp: () => void;
+  disabled?: boolean;
+}
+
+const FILTER_LABELS: Record<ReplyFilter, string> = {
+  all: "Все",
+  unread: "Не прочитали",
+  unanswered: "Не ответили",
+};
+
+export function ReplyTrackingBar({
+  tracked,
+  read,
+  replied,
+  matching,
+  filter,
+  onFilterChange,
+  autoRefresh,
+  onAutoRefreshChange,
+  progress,
+  lastCheckedAt,
+  onRefresh,
+  onFollowUp,
+  disabled,
+}: ReplyTrackingBarProps) {
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-white flex flex-wrap items-center gap-3 text-xs">
+      <span className="text-slate-600">
+        💬 Из {tracked}: прочитали <b className="text-blue-700">{read}</b>, ответили{" "}
+        <b className="text-green-700">{replied}</b>
+      </span>
+      <button
+        type="button"
+        onClick={onRefresh}
+        disabled={!!progress || disabled}
+        className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+      >
+        {progress ? `Проверяем ${progress.done}/${progress.total}...` : "🔄 Проверить ответы"}
+      </button>
+      <label className="flex items-center gap-1 text-slate-500">
+        <input type="checkbox" checked={autoRefresh} onChange={(e) => onAutoRefreshChange(e.target.checked)} />
+        каждую минуту
+      </label>
+      {lastCheckedAt && (
+        <span className="text-slate-400">
+          обновлено в {new Date(lastCheckedAt).toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" })}
+        </span>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        <select
+          value={filter}
+          onChange={(e) => onFilterChange(e.target.value as ReplyFilter)}
+          className="px-2 py-1.5 rounded-md border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-400"
+        >
+          {(Object.keys(FILTER_LABELS) as ReplyFilter[]).map((f) => (
+            <option key={f} value={f}>
+              {FILTER_LABELS[f]}
+            </option>
+          ))}
+        </select>
+        {filter !== "all" && matching > 0 && (
+          <button
+            type="button"
+            onClick={onFollowUp}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+            title="Вернуть их в очередь, чтобы «Отправить всем» написало только им"
+          >
+            ↩ Написать им ещё раз ({matching})
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
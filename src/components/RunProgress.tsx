@@ -0,0 +1,118 @@
+import type { RateLimiterBlock } from "../lib/rateLimiter";
+import type { WindowBlock } from "../lib/schedule";
+import type { SendRun } from "../lib/sendRun";
+
+interface RunProgressProps {
+  run: SendRun;
+  etaMs: number | null;
+  ratePerMinute: number | null;
+  // How many times slower than configured the limiter is going after flood errors
+  slowdown: number;
+  block: RateLimiterBlock | WindowBlock | null;
+  // The loop is executing in this tab (false after a reload or a token/captcha stop)
+  live: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+export function formatDuration(ms: number): string {
+  const totalSec = Math.max(0, Math.round(ms / 1000));
+  const h = Math.floor(totalSec / 3600);
+  const m = Math.floor((totalSec % 3600) / 60);
+  const sec = totalSec % 60;
+  if (h > 0) return `${h} ч ${m} мин`;
+  if (m > 0) return `${m} мин ${sec} с`;
+  return `${sec} с`;
+}
+
+function formatClock(ts: number): string {
+  const d = new Date(ts);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  const time = d.toLocaleTimeString("ru-RU", { hour: "2-digit", minute: "2-digit" });
+  return sameDay ? time : `${d.toLocaleDateString("ru-RU", { day: "numeric", month: "short" })} ${time}`;
+}
+
+function formatRate(perMinute: number): string {
+  if (perMinute >= 60) return `${Math.round(perMinute / 60)} в секунду`;
+  if (perMinute >= 1) return `${Math.round(perMinute * 10) / 10} в минуту`;
+  return `${Math.round(perMinute * 600) / 10} в час`;
+}
+
+export function RunProgress({
+  run,
+  etaMs,
+  ratePerMinute,
+  slowdown,
+  block,
+  live,
+  onPause,
+  onResume,
+  onStop,
+}: RunProgressProps) {
+  const total = run.queue.length;
+  const percent = total ? Math.round((run.cursor / total) * 100) : 100;
+  const paused = run.status === "paused";
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-white space-y-2">
+      <div className="flex items-center justify-between gap-3 flex-wrap text-xs">
+        <span className="text-slate-600">
+          {paused ? (live ? "⏸ Пауза" : "⏸ Рассылка прервана") : "📤 Идёт рассылка"}
+          <span className="text-slate-400">
+            {" "}· {run.cursor} из {total}
+            {etaMs !== null && !paused && (
+              <> · осталось ≈ {formatDuration(etaMs)}, закончим ≈ в {formatClock(Date.now() + etaMs)}</>
+            )}
+          </span>
+        </span>
+        <div className="flex items-center gap-2">
+          {paused ? (
+            <button
+              onClick={onResume}
+              className="px-3 py-1.5 bg-blue-500 text-white rounded-lg font-medium hover:bg-blue-600 transition-all active:scale-95"
+            >
+              ▶ Продолжить
+            </button>
+          ) : (
+            <button
+              onClick={onPause}
+              className="px-3 py-1.5 bg-amber-100 text-amber-700 rounded-lg font-medium hover:bg-amber-200 transition-all active:scale-95"
+            >
+              ⏸ Пауза
+            </button>
+          )}
+          <button
+            onClick={onStop}
+            className="px-3 py-1.5 text-red-500 hover:text-white hover:bg-red-500 rounded-lg font-medium transition-all active:scale-95"
+          >
+            ■ Остановить
+          </button>
+        </div>
+      </div>
+      {live && !paused && (ratePerMinute !== null || block) && (
+        <div className="flex items-center gap-3 flex-wrap text-xs text-slate-400">
+          {ratePerMinute !== null && <span>⚡ Скорость: {formatRate(ratePerMinute)}</span>}
+          {slowdown > 1 && <span className="text-amber-600">замедлено в {slowdown} раз(а) из-за ограничений VK</span>}
+          {block?.reason === "window" && (
+            <span className="text-amber-600">
+              Вне разрешённых часов, продолжение в {formatClock(block.until)} (через{" "}
+              {formatDuration(block.until - Date.now())})
+            </span>
+          )}
+          {(block?.reason === "hour" || block?.reason === "day") && (
+            <span className="text-amber-600">
+              Достигнут лимит {block.reason === "hour" ? "в час" : "в сутки"}, продолжение в {formatClock(block.until)}
+            </span>
+          )}
+        </div>
+      )}
+      <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${paused ? "bg-amber-400" : "bg-gradient-to-r from-green-500 to-emerald-600"}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
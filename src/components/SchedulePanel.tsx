@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { formatTime, parseTime, type ScheduledRun, type SendWindow } from "../lib/schedule";
+import { formatDuration } from "./RunProgress";
+
+interface SchedulePanelProps {
+  sendWindow: SendWindow;
+  onWindowChange: (sendWindow: SendWindow) => void;
+  scheduled: ScheduledRun[];
+  // Runs due before this moment came up while the tab was closed and wait for a manual start
+  openedAt: number;
+  // False while there is no text to snapshot
+  canSchedule: boolean;
+  onSchedule: (at: number) => void;
+  onStart: (id: string) => void;
+  onCancel: (id: string) => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800 disabled:opacity-60";
+
+// Monday first, as on a Russian calendar; values are Date.getDay() numbers
+const WEEKDAYS: [number, string][] = [
+  [1, "Пн"],
+  [2, "Вт"],
+  [3, "Ср"],
+  [4, "Чт"],
+  [5, "Пт"],
+  [6, "Сб"],
+  [0, "Вс"],
+];
+
+function formatWhen(ts: number): string {
+  return new Date(ts).toLocaleString("ru-RU", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+// "2024-05-17T14:30" in local time, for <input type="datetime-local">
+function toLocalInput(ts: number): string {
+  const d = new Date(ts - new Date(ts).getTimezoneOffset() * 60_000);
+  return d.toISOString().slice(0, 16);
+}
+
+export function SchedulePanel({
+  sendWindow,
+  onWindowChange,
+  scheduled,
+  openedAt,
+  canSchedule,
+  onSchedule,
+  onStart,
+  onCancel,
+}: SchedulePanelProps) {
+  const [when, setWhen] = useState(() => toLocalInput(Date.now() + 60 * 60_000));
+  const at = when ? new Date(when).getTime() : NaN;
+  const validAt = Number.isFinite(at) && at > Date.now();
+
+  const setTime = (field: "from" | "to", value: string) => {
+    const minutes = parseTime(value);
+    if (minutes !== null) onWindowChange({ ...sendWindow, [field]: minutes });
+  };
+
+  const toggleDay = (day: number) => {
+    const days = sendWindow.days.includes(day) ? sendWindow.days.filter((d) => d !== day) : [...sendWindow.days, day];
+    onWindowChange({ ...sendWindow, days });
+  };
+
+  return (
+    <div className="space-y-4 text-xs text-slate-500">
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-slate-700">
+          <input
+            type="checkbox"
+            checked={sendWindow.enabled}
+            onChange={(e) => onWindowChange({ ...sendWindow, enabled: e.target.checked })}
+          />
+          Отправлять только в разрешённые часы
+        </label>
+        <div className={`flex flex-wrap items-center gap-3 ${sendWindow.enabled ? "" : "opacity-50"}`}>
+          <span className="flex items-center gap-1">
+            с
+            <input
+              type="time"
+              disabled={!sendWindow.enabled}
+              value={formatTime(sendWindow.from)}
+              onChange={(e) => setTime("from", e.target.value)}
+              className={inputClass}
+            />
+            до
+            <input
+              type="time"
+              disabled={!sendWindow.enabled}
+              value={formatTime(sendWindow.to)}
+              onChange={(e) => setTime("to", e.target.value)}
+              className={inputClass}
+            />
+          </span>
+          <span className="flex gap-1">
+            {WEEKDAYS.map(([day, label]) => (
+              <button
+                key={day}
+                type="button"
+                disabled={!sendWindow.enabled}
+                onClick={() => toggleDay(day)}
+                className={`w-8 py-1 rounded-md border transition-colors ${
+                  sendWindow.days.includes(day)
+                    ? "bg-blue-50 border-blue-300 text-blue-700 font-medium"
+                    : "bg-white border-slate-200 text-slate-400 hover:bg-slate-50"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </span>
+        </div>
+        <p className="text-slate-400">
+          Вне этих часов рассылка ждёт и продолжается сама, когда окно откроется, — если вкладка остаётся открытой.
+          Время — по часам этого компьютера.
+        </p>
+        {sendWindow.enabled && sendWindow.days.length === 0 && (
+          <p className="text-amber-600">Не выбрано ни одного дня — рассылка не начнётся.</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="datetime-local"
+            value={when}
+            onChange={(e) => setWhen(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            type="button"
+            disabled={!validAt || !canSchedule}
+            onClick={() => onSchedule(at)}
+            className="px-3 py-1.5 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Запланировать
+          </button>
+          {!canSchedule && <span className="text-slate-400">Сначала введите текст сообщения</span>}
+          {when && !validAt && canSchedule && <span className="text-amber-600">Это время уже прошло</span>}
+        </div>
+        <p className="text-slate-400">
+          Запланированная рассылка возьмёт текст, который сейчас в редакторе, и всех, кому ещё можно написать, на момент
+          запуска.
+        </p>
+      </div>
+
+      {scheduled.length > 0 && (
+        <ul className="divide-y divide-slate-100 rounded-lg border border-slate-200">
+          {scheduled.map((item) => {
+            const missed = item.at < openedAt;
+            const due = item.at <= Date.now();
+            return (
+              <li key={item.id} className="flex items-center gap-3 px-3 py-2">
+                <span className="font-medium text-slate-700 whitespace-nowrap">{formatWhen(item.at)}</span>
+                <span className="flex-1 truncate text-slate-400" title={item.template}>
+                  {item.template}
+                </span>
+                <span
+                  className={`whitespace-nowrap ${item.error ? "text-red-600" : missed ? "text-amber-600" : "text-slate-500"}`}
+                  title={item.error}
+                >
+                  {item.error
+                    ? "не запустилась"
+                    : missed
+                      ? "пропущена, пока вкладка была закрыта"
+                      : due
+                        ? "ждёт запуска"
+                        : `через ${formatDuration(item.at - Date.now())}`}
+                </span>
+                {(missed || item.error) && (
+                  <button
+                    type="button"
+                    onClick={() => onStart(item.id)}
+                    className="text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Запустить
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onCancel(item.id)}
+                  className="text-slate-400 hover:text-red-500"
+                  title="Отменить"
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
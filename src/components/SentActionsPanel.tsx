@@ -0,0 +1,143 @@
+import { useState } from "react";
+import type { SentAction, SentActionResult } from "../lib/sentActions";
+
+interface SentActionsPanelProps {
+  selectedCount: number;
+  // Sent rows whose message can still be edited or deleted
+  selectableCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  // The template the edit box starts from
+  defaultText: string;
+  progress: { action: SentAction; done: number; total: number } | null;
+  results: { action: SentAction; results: SentActionResult[] } | null;
+  nameOf: (contactId: string) => string;
+  onEdit: (template: string) => void;
+  onDelete: () => void;
+  onStop: () => void;
+  disabled?: boolean;
+}
+
+const ACTION_LABELS: Record<SentAction, string> = { edit: "Исправление", delete: "Удаление" };
+
+export function SentActionsPanel({
+  selectedCount,
+  selectableCount,
+  onSelectAll,
+  onClearSelection,
+  defaultText,
+  progress,
+  results,
+  nameOf,
+  onEdit,
+  onDelete,
+  onStop,
+  disabled,
+}: SentActionsPanelProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const busy = progress !== null;
+  const failures = results?.results.filter((r) => !r.ok) ?? [];
+  const succeeded = (results?.results.length ?? 0) - failures.length;
+
+  const confirmDelete = () => {
+    if (confirm(`Удалить ${selectedCount} сообщ. у получателей? Это нельзя отменить.`)) onDelete();
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-slate-50/60 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-slate-600">
+          ✉️ Отправленные: выбрано <b>{selectedCount}</b> из {selectableCount}
+        </span>
+        <button type="button" onClick={onSelectAll} disabled={busy} className="text-blue-600 hover:text-blue-700">
+          выбрать все
+        </button>
+        {selectedCount > 0 && (
+          <button type="button" onClick={onClearSelection} disabled={busy} className="text-slate-400 hover:text-slate-600">
+            снять выбор
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setDraft(draft === null ? defaultText : null)}
+            disabled={busy || disabled || selectedCount === 0}
+            className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            ✏️ Исправить текст
+          </button>
+          <button
+            type="button"
+            onClick={confirmDelete}
+            disabled={busy || disabled || selectedCount === 0}
+            className="px-3 py-1.5 rounded-lg border border-red-200 bg-white text-red-600 hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            🗑 Удалить у всех
+          </button>
+        </div>
+      </div>
+
+      {draft !== null && !busy && (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={4}
+            className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                onEdit(draft);
+                setDraft(null);
+              }}
+              disabled={!draft.trim()}
+              className="px-3 py-1.5 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              Заменить текст в {selectedCount} сообщ.
+            </button>
+            <button type="button" onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-600">
+              Отмена
+            </button>
+            <span className="text-slate-400">
+              Переменные подставляются заново; случайные варианты {"{{…}}"} могут выпасть другие.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {progress && (
+        <div className="flex items-center gap-3">
+          <span className="text-slate-600">
+            {ACTION_LABELS[progress.action]}: {progress.done} из {progress.total}
+          </span>
+          <div className="flex-1 h-1.5 rounded-full bg-slate-200 overflow-hidden">
+            <div
+              className="h-full rounded-full bg-blue-500 transition-all"
+              style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 100}%` }}
+            />
+          </div>
+          <button type="button" onClick={onStop} className="text-red-500 hover:text-red-600 font-medium">
+            ■ Остановить
+          </button>
+        </div>
+      )}
+
+      {results && !progress && (
+        <div className="space-y-1">
+          <p className="text-slate-600">
+            {ACTION_LABELS[results.action]} завершено: успешно {succeeded}
+            {failures.length > 0 && <span className="text-red-600">, с ошибкой {failures.length}</span>}
+          </p>
+          {failures.slice(0, 10).map((r) => (
+            <p key={r.contactId} className="text-red-600">
+              {nameOf(r.contactId)}: {r.error}
+            </p>
+          ))}
+          {failures.length > 10 && <p className="text-red-600">…и ещё {failures.length - 10}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
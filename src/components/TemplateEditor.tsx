@@ -0,0 +1,71 @@
+import { useRef } from "react";
+import { formatTemplateError, type TemplateError } from "../lib/template";
+
+interface TemplateEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  error: TemplateError | null;
+  placeholder?: string;
+  rows?: number;
+}
+
+// Shared by the textarea and the backdrop behind it, so the highlight lines up with the text
+const textLayout = "px-4 py-3 font-mono text-sm whitespace-pre-wrap break-words";
+
+export function TemplateEditor({ value, onChange, error, placeholder, rows = 4 }: TemplateEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const selectError = () => {
+    const el = textareaRef.current;
+    if (!el || !error) return;
+    el.focus();
+    el.setSelectionRange(error.offset, error.offset + error.length);
+  };
+
+  const before = error ? value.slice(0, error.offset) : value;
+  const marked = error ? value.slice(error.offset, error.offset + error.length) : "";
+  const after = error ? value.slice(error.offset + error.length) : "";
+
+  return (
+    <div>
+      <div className="relative rounded-xl border border-slate-200 bg-slate-50 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent transition-all">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={`absolute inset-0 overflow-hidden text-transparent pointer-events-none ${textLayout}`}
+        >
+          {before}
+          {error && (
+            <mark className="bg-red-200/80 text-transparent rounded-sm">{marked || " "}</mark>
+          )}
+          {after}
+          {/* Keeps a trailing newline from collapsing so both layers scroll the same */}
+          {"\n"}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          placeholder={placeholder}
+          rows={rows}
+          spellCheck={false}
+          className={`relative block w-full bg-transparent rounded-xl text-slate-800 placeholder-slate-400 focus:outline-none resize-none ${textLayout}`}
+        />
+      </div>
+      {error && (
+        <button
+          type="button"
+          onClick={selectError}
+          className="mt-2 w-full text-left bg-red-50 text-red-600 text-xs rounded-lg px-3 py-2 border border-red-200 hover:bg-red-100 transition-colors"
+          title="Показать место ошибки"
+        >
+          ⚠️ {formatTemplateError(error)}
+        </button>
+      )}
+    </div>
+  );
+}
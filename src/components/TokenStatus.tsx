@@ -0,0 +1,50 @@
+import type { TokenIdentity } from "../lib/tokenInfo";
+
+export type TokenState =
+  | { status: "checking" }
+  | { status: "ok"; identity: TokenIdentity }
+  | { status: "error"; message: string };
+
+interface TokenStatusProps {
+  state: TokenState;
+  // Community mode is on, so a personal token will not do
+  asCommunity: boolean;
+}
+
+// Under the token field: whose name the messages will go out under, and what the token cannot do
+export function TokenStatus({ state, asCommunity }: TokenStatusProps) {
+  if (state.status === "checking") {
+    return <p className="text-xs text-slate-400 mt-1">Проверяем токен...</p>;
+  }
+  if (state.status === "error") {
+    return <p className="text-xs text-red-600 mt-1">✗ {state.message}</p>;
+  }
+
+  const { identity } = state;
+  const link = `https://vk.com/${identity.kind === "group" ? "club" : "id"}${identity.id}`;
+  return (
+    <div className="mt-2 flex items-start gap-3 text-xs">
+      {identity.photo ? (
+        <img src={identity.photo} alt="" className="w-9 h-9 rounded-full" />
+      ) : (
+        <div className="w-9 h-9 rounded-full bg-slate-200" />
+      )}
+      <div className="space-y-0.5">
+        <p className="text-slate-700">
+          Сообщения будут от{" "}
+          <a href={link} target="_blank" rel="noreferrer" className="font-medium text-blue-600 hover:underline">
+            {identity.name}
+          </a>{" "}
+          <span className="text-slate-400">({identity.kind === "group" ? "сообщество" : "личная страница"})</span>
+        </p>
+        {identity.missingScopes.length > 0 && (
+          <p className="text-red-600">✗ Не хватает прав: {identity.missingScopes.join(", ")} — получите токен заново</p>
+        )}
+        {identity.expires && <p className="text-amber-600">Токен без offline-доступа перестанет работать через сутки</p>}
+        {asCommunity && identity.kind === "user" && (
+          <p className="text-amber-600">Включена отправка от сообщества, а это токен личной страницы</p>
+        )}
+      </div>
+    </div>
+  );
+}
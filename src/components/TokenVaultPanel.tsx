@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { forgetToken, saveToken, unlockToken } from "../lib/tokenVault";
+
+interface TokenVaultPanelProps {
+  token: string;
+  // A token is stored in this browser
+  saved: boolean;
+  onSavedChange: (saved: boolean) => void;
+  onUnlock: (token: string) => void;
+}
+
+const inputClass =
+  "px-2 py-1.5 text-xs rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-1 focus:ring-blue-400 text-slate-800";
+
+export function TokenVaultPanel({ token, saved, onSavedChange, onUnlock }: TokenVaultPanelProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setBusy(true);
+    const value = await unlockToken(passphrase);
+    setBusy(false);
+    if (value === null) {
+      setNotice({ text: "Пароль не подходит", error: true });
+      return;
+    }
+    setPassphrase("");
+    setNotice(null);
+    onUnlock(value);
+  };
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < 6) {
+      setNotice({ text: "Пароль — не короче 6 символов", error: true });
+      return;
+    }
+    setBusy(true);
+    const ok = await saveToken(token.trim(), passphrase);
+    setBusy(false);
+    setPassphrase("");
+    setNotice(
+      ok
+        ? { text: "Токен сохранён в этом браузере", error: false }
+        : { text: "Не удалось сохранить: хранилище браузера недоступно", error: true }
+    );
+    if (ok) onSavedChange(true);
+  };
+
+  const forget = () => {
+    forgetToken();
+    setNotice({ text: "Сохранённый токен удалён", error: false });
+    onSavedChange(false);
+  };
+
+  // A stored token and nothing typed: offer to open it
+  const unlocking = saved && !token.trim();
+  if (!unlocking && !token.trim()) return null;
+
+  return (
+    <form onSubmit={unlocking ? unlock : save} className="mt-2 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+      <span>{unlocking ? "🔒 Есть сохранённый токен:" : saved ? "Сохранить заново:" : "Запомнить токен:"}</span>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder={unlocking ? "Пароль" : "Придумайте пароль"}
+        autoComplete={unlocking ? "current-password" : "new-password"}
+        className={inputClass}
+      />
+      <button
+        type="submit"
+        disabled={busy || !passphrase}
+        className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 transition-colors disabled:opacity-50"
+      >
+        {unlocking ? "Открыть" : "Сохранить"}
+      </button>
+      {saved && (
+        <button type="button" onClick={forget} className="text-slate-400 hover:text-red-500">
+          Забыть сохранённый
+        </button>
+      )}
+      {notice && <span className={notice.error ? "text-red-600" : "text-slate-500"}>{notice.text}</span>}
+      {!unlocking && (
+        <span className="basis-full text-slate-400">
+          Токен шифруется паролем и хранится только в этом браузере; без пароля его не прочитать.
+        </span>
+      )}
+    </form>
+  );
+}
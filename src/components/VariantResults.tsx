@@ -0,0 +1,53 @@
+import type { VariantResult } from "../lib/variants";
+
+interface VariantResultsProps {
+  results: VariantResult[];
+  // Read and replied columns only mean something once replies have been checked
+  tracking: boolean;
+}
+
+function share(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : "—";
+}
+
+export function VariantResults({ results, tracking }: VariantResultsProps) {
+  // The best reply rate (or delivery rate, before any tracking) is highlighted
+  const rate = (r: VariantResult) => (tracking ? (r.sent ? r.replied / r.sent : 0) : r.total ? r.sent / r.total : 0);
+  const best = Math.max(...results.map(rate));
+
+  return (
+    <div className="px-6 py-3 border-b border-slate-100 bg-white text-xs">
+      <p className="font-semibold text-slate-600 mb-2">🆎 Результаты по вариантам</p>
+      <table className="w-full max-w-xl">
+        <thead>
+          <tr className="text-left text-slate-400">
+            <th className="font-medium py-1">Вариант</th>
+            <th className="font-medium py-1">Отправлено</th>
+            <th className="font-medium py-1">Ошибки</th>
+            {tracking && <th className="font-medium py-1">Прочитали</th>}
+            {tracking && <th className="font-medium py-1">Ответили</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((r) => (
+            <tr key={r.name} className={r.total > 0 && best > 0 && rate(r) === best ? "text-green-700" : "text-slate-600"}>
+              <td className="py-1 font-medium">{r.name}</td>
+              <td className="py-1">{r.sent}</td>
+              <td className={r.failed > 0 ? "py-1 text-red-600" : "py-1"}>{r.failed}</td>
+              {tracking && (
+                <td className="py-1">
+                  {r.read} <span className="text-slate-400">({share(r.read, r.sent)})</span>
+                </td>
+              )}
+              {tracking && (
+                <td className="py-1">
+                  {r.replied} <span className="text-slate-400">({share(r.replied, r.sent)})</span>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
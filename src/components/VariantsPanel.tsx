@@ -0,0 +1,201 @@
+import { MAX_VARIANTS, nextVariantName, type TemplateVariant, type VariantSplit } from "../lib/variants";
+
+interface VariantsPanelProps {
+  // Empty while there is no A/B test; the first variant's text is the editor's
+  variants: TemplateVariant[];
+  onChange: (variants: TemplateVariant[]) => void;
+  // The editor's text, copied into new variants as a starting point
+  baseText: string;
+  active: number;
+  onSelect: (index: number) => void;
+  // Variants whose text cannot be sent as it is
+  invalid: boolean[];
+  // How many of the contacts still to be messaged each variant gets; null when split by an unset column
+  counts: number[] | null;
+  split: VariantSplit;
+  onSplitChange: (split: VariantSplit) => void;
+  columns: string[];
+  disabled?: boolean;
+}
+
+export function VariantsPanel({
+  variants,
+  onChange,
+  baseText,
+  active,
+  onSelect,
+  invalid,
+  counts,
+  split,
+  onSplitChange,
+  columns,
+  disabled,
+}: VariantsPanelProps) {
+  if (variants.length === 0) {
+    return (
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => {
+          onChange([
+            { name: "А", text: baseText, weight: 50 },
+            { name: "Б", text: baseText, weight: 50 },
+          ]);
+          onSelect(1);
+        }}
+        className="text-xs text-blue-600 hover:text-blue-700 underline underline-offset-2 disabled:opacity-50"
+      >
+        🆎 Сравнить несколько вариантов текста
+      </button>
+    );
+  }
+
+  const update = (index: number, patch: Partial<TemplateVariant>) =>
+    onChange(variants.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+
+  const add = () => {
+    onChange([...variants, { name: nextVariantName(variants), text: baseText, weight: 0 }]);
+    onSelect(variants.length);
+  };
+
+  const remove = (index: number) => {
+    const next = variants.filter((_, i) => i !== index);
+    // One variant left is no test at all: back to the plain editor
+    onChange(next.length > 1 ? next : []);
+    onSelect(Math.min(active, next.length > 1 ? next.length - 1 : 0));
+  };
+
+  const totalWeight = variants.reduce((sum, v) => sum + Math.max(v.weight, 0), 0);
+
+  return (
+    <div className="mb-2 space-y-2 text-xs text-slate-500">
+      <div className="flex flex-wrap items-center gap-1">
+        {variants.map((v, i) => (
+          <button
+            key={i}
+            type="button"
+            onClick={() => onSelect(i)}
+            className={`px-3 py-1.5 rounded-lg border transition-colors ${
+              i === active
+                ? "border-blue-400 bg-blue-50 text-blue-700 font-semibold"
+                : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+            }`}
+            title={invalid[i] ? "В этом варианте есть ошибка" : undefined}
+          >
+            Вариант {v.name || "?"}
+            {invalid[i] && <span className="ml-1 text-red-500">⚠</span>}
+            {counts && <span className="ml-1 font-normal text-slate-400">· {counts[i]}</span>}
+          </button>
+        ))}
+        {variants.length < MAX_VARIANTS && (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={add}
+            className="px-2 py-1.5 rounded-lg text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-50"
+            title="Добавить вариант"
+          >
+            ＋
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2">
+        <label className="flex items-center gap-1">
+          Название
+          <input
+            type="text"
+            value={variants[active].name}
+            disabled={disabled}
+            onChange={(e) => update(active, { name: e.target.value })}
+            className="w-20 px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400"
+          />
+        </label>
+        {split.by === "percent" && (
+          <label className="flex items-center gap-1">
+            Доля
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={variants[active].weight}
+              disabled={disabled}
+              onChange={(e) => update(active, { weight: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-16 px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-800 focus:outline-none focus:ring-1 focus:ring-blue-400"
+            />
+            %
+          </label>
+        )}
+        {active > 0 && (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => remove(active)}
+            className="text-red-500 hover:text-red-600 disabled:opacity-50"
+          >
+            Удалить вариант
+          </button>
+        )}
+        {active === 0 && (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => {
+              onChange([]);
+              onSelect(0);
+            }}
+            className="text-slate-500 hover:text-slate-700 disabled:opacity-50"
+            title="Оставить только текст варианта А"
+          >
+            Отключить сравнение
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span>Кому какой вариант:</span>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={split.by === "percent"}
+            disabled={disabled}
+            onChange={() => onSplitChange({ ...split, by: "percent" })}
+          />
+          по долям
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={split.by === "column"}
+            disabled={disabled || columns.length === 0}
+            onChange={() => onSplitChange({ ...split, by: "column" })}
+          />
+          из столбца
+        </label>
+        {split.by === "column" && (
+          <select
+            value={split.column}
+            disabled={disabled}
+            onChange={(e) => onSplitChange({ ...split, column: e.target.value })}
+            className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-1 focus:ring-blue-400"
+          >
+            <option value="">— выберите —</option>
+            {columns.map((c) => (
+              <option key={c} value={c}>
+                {`{${c}}`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {split.by === "percent" && totalWeight !== 100 && (
+        <p className="text-amber-600">
+          Сумма долей {totalWeight}% — контакты разделятся пропорционально.
+        </p>
+      )}
+      {split.by === "column" && (
+        <p className="text-slate-400">В ячейке столбца — название варианта, например «{variants[0].name}».</p>
+      )}
+    </div>
+  );
+}
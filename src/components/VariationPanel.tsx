@@ -0,0 +1,78 @@
+import { useDeferredValue, useMemo, useState } from "react";
+import type { Contact } from "../lib/contact";
+import { countCombinations, processMessage, type ParsedTemplate } from "../lib/template";
+
+interface VariationPanelProps {
+  template: ParsedTemplate;
+  contacts: Contact[];
+}
+
+function formatCount(n: number): string {
+  return n > 1_000_000 ? "больше миллиона" : n.toLocaleString("ru-RU");
+}
+
+export function VariationPanel({ template, contacts }: VariationPanelProps) {
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const combinations = useMemo(() => countCombinations(template.nodes), [template]);
+
+  // Distinct texts the loaded contacts will actually get. Counted behind the editor, and with each
+  // contact's text kept, so a status change during a run does not render the whole list again.
+  const listTemplate = useDeferredValue(template);
+  const listContacts = useDeferredValue(contacts);
+  const texts = useMemo(() => new WeakMap<Contact, string>(), [listTemplate]);
+  const distinct = useMemo(() => {
+    if (countCombinations(listTemplate.nodes) < 2 || listContacts.length === 0) return null;
+    const seen = new Set<string>();
+    for (const c of listContacts) {
+      let text = texts.get(c);
+      if (text === undefined) {
+        text = processMessage(listTemplate, c).text;
+        texts.set(c, text);
+      }
+      seen.add(text);
+    }
+    return seen.size;
+  }, [listTemplate, listContacts, texts]);
+
+  if (template.error || combinations < 2) return null;
+
+  const sampleContact = contacts.length ? contacts[sampleIndex % contacts.length] : null;
+  const sample = sampleContact ? processMessage(template, sampleContact).text : null;
+
+  return (
+    <div className="mt-3 rounded-xl border border-teal-100 bg-teal-50/50 px-4 py-3 space-y-2 text-xs text-slate-600">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>
+          🎲 Вариантов текста: <b className="text-teal-700">{formatCount(combinations)}</b>
+        </span>
+        {distinct !== null && (
+          <span>
+            Разных сообщений для {contacts.length} контактов: <b className="text-teal-700">{distinct}</b>
+          </span>
+        )}
+      </div>
+      {distinct !== null && distinct < contacts.length && combinations < contacts.length && (
+        <p className="text-amber-600">
+          Вариантов меньше, чем контактов — часть сообщений совпадёт. Добавьте ещё вариантов в {"{{…|…}}"}.
+        </p>
+      )}
+      {sample !== null && sampleContact && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400">Пример для «{sampleContact.fullName || sampleContact.vkId}»:</span>
+            <button
+              type="button"
+              onClick={() => setSampleIndex((i) => i + 1)}
+              className="text-teal-600 hover:text-teal-700 underline underline-offset-2"
+            >
+              следующий
+            </button>
+          </div>
+          <div className="bg-white rounded-lg border border-teal-100 px-3 py-2 font-mono whitespace-pre-wrap text-slate-700">
+            {sample}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
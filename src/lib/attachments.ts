@@ -0,0 +1,52 @@
+import type { Contact } from "./contact";
+
+// Media sent along with the text, as VK's own strings (photo-1_2, doc123_456_accesskey), pasted or
+// taken from a link. Files cannot be uploaded from the page: VK's upload servers send no CORS
+// headers, so the browser will not let the page read their answer. They go up through VK first.
+
+export interface Attachment {
+  // The string for the attachment parameter
+  media: string;
+  // What the panel shows: the media string itself
+  label: string;
+}
+
+// messages.send takes at most ten attachments
+export const MAX_ATTACHMENTS = 10;
+
+const MEDIA_PATTERN = /(photo|video|audio|doc|wall|market|poll|story)(-?\d+_\d+(?:_[0-9a-f]+)?)/i;
+
+// "photo-1_2", "https://vk.com/photo-1_2", "vk.com/wall-1_2?w=..." → the media string, or null
+export function parseMedia(raw: string): string | null {
+  const m = raw.trim().match(MEDIA_PATTERN);
+  return m ? `${m[1].toLowerCase()}${m[2]}` : null;
+}
+
+// A cell or a pasted list: separated by commas, semicolons or whitespace
+export function parseMediaList(text: string): { media: string[]; rejected: string[] } {
+  const media: string[] = [];
+  const rejected: string[] = [];
+  for (const part of text.split(/[\s,;]+/).filter(Boolean)) {
+    const parsed = parseMedia(part);
+    if (parsed) media.push(parsed);
+    else rejected.push(part);
+  }
+  return { media, rejected };
+}
+
+// The attachment parameter for one contact: the shared ones plus whatever their row names
+export function contactAttachment(
+  contact: Contact,
+  shared: string[],
+  column?: string
+): { attachment: string; error: null } | { attachment: null; error: string } {
+  const own = column ? parseMediaList(contact.vars?.[column] ?? "") : { media: [], rejected: [] };
+  if (own.rejected.length > 0) {
+    return { attachment: null, error: `Не распознано вложение: ${own.rejected.join(", ")}` };
+  }
+  const all = [...new Set([...shared, ...own.media])];
+  if (all.length > MAX_ATTACHMENTS) {
+    return { attachment: null, error: `Больше ${MAX_ATTACHMENTS} вложений` };
+  }
+  return { attachment: all.join(","), error: null };
+}
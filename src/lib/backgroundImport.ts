@@ -0,0 +1,76 @@
+import type { Contact } from "./contact";
+import ImportWorker from "./importWorker?worker&inline";
+import type { BuildRequest, ImportRequest, ImportReply } from "./importWorker";
+import {
+  buildContacts,
+  readImportFile,
+  readTextTable,
+  type ImportMapping,
+  type ImportProgress,
+  type ImportSource,
+} from "./importer";
+
+// Runs one request in a worker, off the page's thread. The worker is inlined into the page
+// (the build is a single HTML file); where it cannot start, the work is done in place.
+function inWorker<T>(
+  request: ImportRequest | BuildRequest,
+  transfer: Transferable[],
+  result: (reply: ImportReply) => T | undefined,
+  inPlace: () => T,
+  onProgress?: ImportProgress
+): Promise<T> {
+  let worker: Worker;
+  try {
+    worker = new ImportWorker();
+  } catch {
+    return new Promise((resolve) => resolve(inPlace()));
+  }
+
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<ImportReply>) => {
+      const message = e.data;
+      if (message.type === "progress") {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      worker.terminate();
+      const value = result(message);
+      if (value !== undefined) resolve(value);
+      else reject(new Error(message.type === "error" ? message.message : "Неожиданный ответ при разборе файла"));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Не удалось прочитать файл"));
+    };
+    worker.postMessage(request, transfer);
+  });
+}
+
+// Parses an import into sheets of rows
+export function readInBackground(request: ImportRequest, onProgress?: ImportProgress): Promise<ImportSource> {
+  return inWorker(
+    request,
+    "data" in request ? [request.data] : [],
+    (reply) => (reply.type === "done" ? reply.source : undefined),
+    () =>
+      "text" in request
+        ? readTextTable(request.text, request.fileName, onProgress)
+        : readImportFile(request.data, request.fileName, onProgress),
+    onProgress
+  );
+}
+
+// Turns the rows of the chosen sheet into contacts with the confirmed mapping
+export function buildInBackground(
+  rows: string[][],
+  mapping: ImportMapping,
+  onProgress?: ImportProgress
+): Promise<Contact[]> {
+  return inWorker(
+    { rows, mapping },
+    [],
+    (reply) => (reply.type === "built" ? reply.contacts : undefined),
+    () => buildContacts(rows, mapping, onProgress),
+    onProgress
+  );
+}
@@ -0,0 +1,132 @@
+import type { Attachment } from "./attachments";
+import { createId, type Contact } from "./contact";
+import { CAMPAIGNS, completion, CONTACTS, openDb, result } from "./db";
+import type { MessageKeyboard } from "./keyboard";
+import type { TemplateVariant, VariantSplit } from "./variants";
+
+// Past and current mailings, kept in IndexedDB so they outlive the open session: the list
+// of campaigns in one store, and the contacts of each (which can run to thousands) in another,
+// so listing the history does not load every contact ever messaged.
+
+// Which campaign the open session belongs to
+export interface CampaignRef {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Everything the editor needs to reopen a campaign, apart from its contacts
+export interface CampaignContent {
+  message: string;
+  fileName: string;
+  keyboard?: MessageKeyboard | null;
+  attachments?: Attachment[];
+  attachmentColumn?: string;
+  variants?: TemplateVariant[];
+  variantSplit?: VariantSplit;
+}
+
+export interface CampaignSummary extends CampaignRef, CampaignContent {
+  updatedAt: number;
+  total: number;
+  sent: number;
+  failed: number;
+  // When the first and the last message went out
+  firstSentAt?: number;
+  lastSentAt?: number;
+}
+
+export interface Campaign extends CampaignSummary {
+  contacts: Contact[];
+}
+
+export function createCampaignRef(fileName: string, now = Date.now()): CampaignRef {
+  const base = fileName.replace(/\.[^.]+$/, "").trim() || "Рассылка";
+  const date = new Date(now).toLocaleDateString("ru-RU", { day: "numeric", month: "short" });
+  return { id: createId("camp"), name: `${base} — ${date}`, createdAt: now };
+}
+
+function contentOf(campaign: CampaignContent): CampaignContent {
+  const { message, fileName, keyboard, attachments, attachmentColumn, variants, variantSplit } = campaign;
+  return { message, fileName, keyboard, attachments, attachmentColumn, variants, variantSplit };
+}
+
+export function summarizeCampaign(ref: CampaignRef, content: CampaignContent, contacts: Contact[]): CampaignSummary {
+  const sentAt = contacts.map((c) => c.sentAt).filter((t): t is number => t !== undefined);
+  return {
+    ...ref,
+    ...content,
+    updatedAt: Date.now(),
+    total: contacts.length,
+    sent: contacts.filter((c) => c.status === "sent").length,
+    failed: contacts.filter((c) => c.status === "error").length,
+    // Not Math.min(...sentAt): a large list would overflow the argument limit
+    firstSentAt: sentAt.length > 0 ? sentAt.reduce((a, b) => Math.min(a, b)) : undefined,
+    lastSentAt: sentAt.length > 0 ? sentAt.reduce((a, b) => Math.max(a, b)) : undefined,
+  };
+}
+
+// Newest first
+export async function listCampaigns(): Promise<CampaignSummary[]> {
+  const db = await openDb();
+  const all = await result(db.transaction(CAMPAIGNS).objectStore(CAMPAIGNS).getAll() as IDBRequest<CampaignSummary[]>);
+  return all.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadCampaign(id: string): Promise<Campaign | null> {
+  const db = await openDb();
+  const tx = db.transaction([CAMPAIGNS, CONTACTS]);
+  const [summary, stored] = await Promise.all([
+    result(tx.objectStore(CAMPAIGNS).get(id) as IDBRequest<CampaignSummary | undefined>),
+    result(tx.objectStore(CONTACTS).get(id) as IDBRequest<{ id: string; contacts: Contact[] } | undefined>),
+  ]);
+  return summary ? { ...summary, contacts: stored?.contacts ?? [] } : null;
+}
+
+export async function saveCampaign(campaign: Campaign): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CAMPAIGNS, CONTACTS], "readwrite");
+  const { contacts, ...summary } = campaign;
+  tx.objectStore(CAMPAIGNS).put(summary);
+  tx.objectStore(CONTACTS).put({ id: campaign.id, contacts });
+  await completion(tx);
+}
+
+export async function deleteCampaign(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([CAMPAIGNS, CONTACTS], "readwrite");
+  tx.objectStore(CAMPAIGNS).delete(id);
+  tx.objectStore(CONTACTS).delete(id);
+  await completion(tx);
+}
+
+// The same audience ready to be messaged again: statuses, sent messages and replies cleared.
+// Rows ruled out earlier (stop list, closed DMs) are checked again rather than carried over.
+function freshContact(c: Contact): Contact {
+  return {
+    id: c.id,
+    fullName: c.fullName,
+    firstName: c.firstName,
+    lastName: c.lastName,
+    gender: c.gender,
+    genderSource: c.genderSource,
+    genderConfidence: c.genderConfidence,
+    genderBasis: c.genderBasis,
+    vkId: c.vkId,
+    rawLink: c.rawLink,
+    vars: c.vars,
+    source: c.source,
+    vkProfile: c.vkProfile,
+    screenName: c.screenName,
+    status: "idle",
+  };
+}
+
+// A new campaign with the same text and audience; onlyFailed keeps just the rows that errored
+export function duplicateCampaign(campaign: Campaign, onlyFailed: boolean): Campaign {
+  const contacts = (onlyFailed ? campaign.contacts.filter((c) => c.status === "error") : campaign.contacts).map(
+    freshContact
+  );
+  const ref = { ...createCampaignRef(campaign.fileName), name: `${campaign.name} (${onlyFailed ? "повтор ошибок" : "копия"})` };
+  return { ...summarizeCampaign(ref, contentOf(campaign), contacts), contacts };
+}
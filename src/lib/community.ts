@@ -0,0 +1,45 @@
+import { MESSAGES_SCOPE } from "./tokenInfo";
+import { VkApiError, type VkClient, type VkGroup } from "./vkApi";
+
+// Sending on behalf of a community: messages go out with peer_id and group_id,
+// and may carry a keyboard
+export interface CommunitySettings {
+  enabled: boolean;
+  // As typed: 12345, club12345, -12345 or a vk.com link
+  groupId: string;
+}
+
+export const DEFAULT_COMMUNITY_SETTINGS: CommunitySettings = { enabled: false, groupId: "" };
+
+export type CommunityCheck = { ok: true; group: VkGroup } | { ok: false; reason: string; group?: VkGroup };
+
+// Only numeric forms: a short name like vk.com/mygroup would need a lookup
+export function parseGroupId(raw: string): number | null {
+  const m = raw
+    .trim()
+    .replace(/^(https?:\/\/)?(m\.)?vk\.com\//i, "")
+    .match(/^(?:club|public|event|-)?(\d+)$/i);
+  return m ? Number(m[1]) : null;
+}
+
+// Confirms the token belongs to a community, to the one configured if any, and may send messages
+export async function verifyCommunityToken(client: VkClient, groupId: number | null): Promise<CommunityCheck> {
+  let group: VkGroup | undefined;
+  try {
+    [group] = await client.groupsGetById();
+  } catch (err) {
+    // An invalid token is reported as such; any other refusal means it is not a community's
+    if (err instanceof VkApiError && err.code === 5) throw err;
+    return { ok: false, reason: "Это не токен сообщества: получите ключ доступа в настройках сообщества (Работа с API)" };
+  }
+  if (!group) return { ok: false, reason: "Это не токен сообщества" };
+  if (groupId !== null && group.id !== groupId) {
+    return { ok: false, group, reason: `Токен выдан сообществу «${group.name}» (ID ${group.id}), а не ${groupId}` };
+  }
+
+  const { mask } = await client.groupsGetTokenPermissions();
+  if (!(mask & MESSAGES_SCOPE)) {
+    return { ok: false, group, reason: `У токена сообщества «${group.name}» нет доступа к сообщениям` };
+  }
+  return { ok: true, group };
+}
@@ -0,0 +1,84 @@
+import type { GrammaticalCase } from "./declension";
+import type { GenderConfidence } from "./genderInference";
+
+export type Gender = "М" | "Ж" | "";
+
+// Where the gender came from: the spreadsheet, a guess from the name, or the operator (or VK) settled it
+export type GenderSource = "given" | "inferred" | "confirmed";
+
+export type ReadState = "delivered" | "read" | "replied";
+
+export type ContactStatus = "idle" | "sending" | "sent" | "error" | "skipped" | "unavailable";
+
+// Name and gender as filled in on the VK page
+export interface VkProfile {
+  firstName: string;
+  lastName: string;
+  gender: Gender;
+  // VK's own declension of the names (users.get with name_case)
+  cases?: Partial<Record<GrammaticalCase, { firstName: string; lastName: string }>>;
+}
+
+export interface Contact {
+  // Stable across edits, removals and reloads; runs refer to contacts by it
+  id: string;
+  fullName: string;
+  firstName: string;
+  // Filled when the import had a separate surname column or could split the full name
+  lastName?: string;
+  gender: Gender;
+  genderSource?: GenderSource;
+  // For inferred genders; "low" ones want a look before sending
+  genderConfidence?: GenderConfidence;
+  // What the inferred gender rests on, e.g. "отчество"
+  genderBasis?: string;
+  vkId: string;
+  rawLink: string;
+  // Spreadsheet columns by normalised header, available in templates as {header}
+  vars?: Record<string, string>;
+  // Every cell of the imported row by column title, in file order, for the report
+  source?: Record<string, string>;
+  // Fetched on request to compare with the spreadsheet; the spreadsheet values stay in use until accepted
+  vkProfile?: VkProfile;
+  // Short name from the link while it still has to be resolved to a numeric ID
+  screenName?: string;
+  status: ContactStatus;
+  errorMsg?: string;
+  // VK error code of the last failed send, if the failure came from the API
+  errorCode?: number;
+  // Why a "skipped" or "unavailable" contact will not be messaged: the stop list, a deleted page, closed DMs
+  skipReason?: string;
+  // What was actually delivered: the rendered text, when (epoch ms) and VK's message ID
+  sentText?: string;
+  sentAt?: number;
+  messageId?: number;
+  // Attachment parameter the message went out with, so an edit can keep it
+  sentAttachment?: string;
+  // A/B variant the message went out with (or failed on)
+  variant?: string;
+  // Later changes to the delivered message; sentText follows an edit
+  editedAt?: number;
+  deletedAt?: number;
+  // What became of the message, as last seen by reply tracking
+  readState?: ReadState;
+  replyText?: string;
+  repliedAt?: number;
+}
+
+export function parseGender(raw: string): Gender {
+  const s = raw.trim().toUpperCase().replace(/\.$/, "");
+  if (s === "М" || s === "M" || /^(МУЖ|MALE$|MAN$)/.test(s)) return "М";
+  if (s === "Ж" || s === "F" || s === "W" || /^(ЖЕН|FEMALE$|WOMAN$)/.test(s)) return "Ж";
+  return "";
+}
+
+export function needsGenderReview(contact: Contact): boolean {
+  return contact.genderSource === "inferred" && contact.genderConfidence === "low";
+}
+
+let idCounter = 0;
+
+export function createId(prefix = "c"): string {
+  idCounter = (idCounter + 1) % 1679616;
+  return `${prefix}_${Date.now().toString(36)}${idCounter.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
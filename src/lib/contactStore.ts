@@ -0,0 +1,110 @@
+import type { Contact } from "./contact";
+
+// The contact list behind the page, read through useSyncExternalStore. Rows are kept by ID, and
+// a status change during a run replaces just that row: nothing is copied, and the groups the page
+// counts (sent, with errors, still to message...) are adjusted for that one row rather than recounted.
+
+export type ContactGroups<K extends string> = Record<K, (c: Contact) => boolean>;
+
+export interface ContactsSnapshot<K extends string> {
+  // Changes with every change, however small
+  version: number;
+  // Row IDs in table order. Replaced only when the list is set as a whole, so it also marks the
+  // moments names, links and columns can change: update() is meant for statuses and results.
+  ids: string[];
+  counts: Record<K, number>;
+}
+
+export interface ContactStore<K extends string> {
+  getSnapshot(): ContactsSnapshot<K>;
+  get(id: string): Contact | undefined;
+  // Every row in order, built on demand: for saving and for actions over the whole list
+  list(): Contact[];
+  // IDs in a group; the same array until a row joins or leaves it
+  members(group: K): string[];
+  update(id: string, updates: Partial<Contact>): void;
+  // Whole-list changes (an import, the stop list, merging repeats), as with a state setter
+  set(next: Contact[] | ((prev: Contact[]) => Contact[])): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createContactStore<K extends string>(initial: Contact[], groups: ContactGroups<K>): ContactStore<K> {
+  const keys = Object.keys(groups) as K[];
+  const byId = new Map<string, Contact>();
+  const sets = {} as Record<K, Set<string>>;
+  // Cached members() arrays, dropped when their group changes
+  const memberLists = new Map<K, string[]>();
+  let snapshot: ContactsSnapshot<K>;
+  let listed: { version: number; contacts: Contact[] } | null = null;
+  const listeners = new Set<() => void>();
+
+  const counts = () => Object.fromEntries(keys.map((k) => [k, sets[k].size])) as Record<K, number>;
+
+  const fill = (contacts: Contact[]) => {
+    byId.clear();
+    for (const k of keys) sets[k] = new Set();
+    memberLists.clear();
+    for (const c of contacts) {
+      byId.set(c.id, c);
+      for (const k of keys) if (groups[k](c)) sets[k].add(c.id);
+    }
+  };
+
+  fill(initial);
+  snapshot = { version: 0, ids: initial.map((c) => c.id), counts: counts() };
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  const list = () => {
+    if (listed?.version !== snapshot.version) {
+      listed = { version: snapshot.version, contacts: snapshot.ids.map((id) => byId.get(id)!) };
+    }
+    return listed.contacts;
+  };
+
+  // Methods are handed around on their own (getItem: store.get), so none of them uses this
+  return {
+    getSnapshot: () => snapshot,
+    get: (id) => byId.get(id),
+    list,
+    members: (group) => {
+      let ids = memberLists.get(group);
+      if (!ids) {
+        ids = [...sets[group]];
+        memberLists.set(group, ids);
+      }
+      return ids;
+    },
+    update: (id, updates) => {
+      const prev = byId.get(id);
+      if (!prev) return;
+      const next = { ...prev, ...updates };
+      byId.set(id, next);
+      let regrouped = false;
+      for (const k of keys) {
+        const was = sets[k].has(id);
+        if (groups[k](next) === was) continue;
+        if (was) sets[k].delete(id);
+        else sets[k].add(id);
+        memberLists.delete(k);
+        regrouped = true;
+      }
+      snapshot = { ...snapshot, version: snapshot.version + 1, counts: regrouped ? counts() : snapshot.counts };
+      notify();
+    },
+    set: (next) => {
+      const prev = list();
+      const value = typeof next === "function" ? next(prev) : next;
+      if (value === prev) return;
+      fill(value);
+      snapshot = { version: snapshot.version + 1, ids: value.map((c) => c.id), counts: counts() };
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
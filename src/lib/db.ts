@@ -0,0 +1,46 @@
+// The app's IndexedDB database: the campaign history (see campaigns.ts) and the open session,
+// which with a long list is far past what localStorage holds.
+
+const DB_NAME = "vk_messages";
+// 2: the session store
+const DB_VERSION = 2;
+export const CAMPAIGNS = "campaigns";
+export const CONTACTS = "contacts";
+export const SESSION = "session";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        // Stores keep their data across upgrades; only the missing ones are added
+        for (const name of [CAMPAIGNS, CONTACTS]) {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name, { keyPath: "id" });
+        }
+        if (!req.result.objectStoreNames.contains(SESSION)) req.result.createObjectStore(SESSION);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // A failed open (private mode, blocked upgrade) is tried again next time
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+export function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,187 @@
+import type { Gender } from "./contact";
+
+// Rule-based declension of Russian first names, surnames and patronymics. It covers the
+// regular patterns; anything it cannot place is reported rather than guessed, so a template
+// never goes out with a mangled name.
+
+export type GrammaticalCase = "nom" | "gen" | "dat" | "acc" | "ins" | "abl";
+
+export const CASE_NAMES: Record<GrammaticalCase, string> = {
+  nom: "именительный",
+  gen: "родительный",
+  dat: "дательный",
+  acc: "винительный",
+  ins: "творительный",
+  abl: "предложный",
+};
+
+// Accepts any abbreviation of the Russian name from two letters: "дат", "род", "тв", "предл"
+export function parseCaseName(raw: string): GrammaticalCase | null {
+  const s = raw.trim().toLowerCase().replace(/\.$/, "");
+  if (s.length < 2) return null;
+  for (const [key, name] of Object.entries(CASE_NAMES) as [GrammaticalCase, string][]) {
+    if (name.startsWith(s)) return key;
+  }
+  return null;
+}
+
+export type DeclineResult = { ok: true; value: string } | { ok: false; reason: string };
+
+// Endings for gen, dat, acc, ins, abl, put after the stem
+type Endings = [string, string, string, string, string];
+
+const OBLIQUE: Exclude<GrammaticalCase, "nom">[] = ["gen", "dat", "acc", "ins", "abl"];
+
+const CYRILLIC_WORD = /^[а-яё]+$/i;
+const VELAR_OR_SIBILANT = /[гкхжчшщ]$/;
+const SIBILANT_OR_TS = /[жчшщц]$/;
+const CONSONANT = /[бвгджзклмнпрстфхцчшщ]$/;
+const INDECLINABLE_VOWEL = /[оеиуюэы]$/;
+
+function endingFor(endings: Endings, c: GrammaticalCase): string {
+  return endings[OBLIQUE.indexOf(c as Exclude<GrammaticalCase, "nom">)];
+}
+
+// Keeps the capitalisation of the original: "АННА" stays upper case, "анна" lower
+function withEnding(word: string, cut: number, endings: Endings, c: GrammaticalCase): string {
+  const ending = endingFor(endings, c);
+  const upper = word.length > 1 && word === word.toUpperCase();
+  return word.slice(0, word.length - cut) + (upper ? ending.toUpperCase() : ending);
+}
+
+// A whole form from a table, in the capitalisation of the original
+function matchCase(original: string, lower: string): string {
+  if (original.length > 1 && original === original.toUpperCase()) return lower.toUpperCase();
+  return original[0] === original[0].toUpperCase() ? lower[0].toUpperCase() + lower.slice(1) : lower;
+}
+
+function ok(value: string): DeclineResult {
+  return { ok: true, value };
+}
+
+// Nouns in -а: Анна, Никита, Ольга, Саша, Глинка
+function aEndings(lower: string): Endings {
+  const stem = lower.slice(0, -1);
+  return [
+    VELAR_OR_SIBILANT.test(stem) ? "и" : "ы",
+    "е",
+    "у",
+    SIBILANT_OR_TS.test(stem) ? "ей" : "ой",
+    "е",
+  ];
+}
+
+// Nouns in -я: Таня, Илья; in -ия: Мария, Гарсия
+function yaEndings(lower: string): Endings {
+  return lower.endsWith("ия") ? ["и", "и", "ю", "ей", "и"] : ["и", "е", "ю", "ей", "е"];
+}
+
+function hardConsonantEndings(lower: string): Endings {
+  return ["а", "у", "а", SIBILANT_OR_TS.test(lower) ? "ем" : "ом", "е"];
+}
+
+const SOFT_MASCULINE: Endings = ["я", "ю", "я", "ем", "е"];
+
+// Names that lose a vowel when declined: Павел — Павла, Лев — Льва
+const FLUENT_VOWEL_STEMS: Record<string, string> = { павел: "павл", лев: "льв", пётр: "петр", петр: "петр" };
+// Names whose forms do not follow their ending
+const FIRST_NAME_FORMS: Record<string, Endings> = {
+  любовь: ["любови", "любови", "любовь", "любовью", "любови"],
+  илья: ["ильи", "илье", "илью", "ильёй", "илье"],
+};
+
+function declineOneFirstName(word: string, gender: Gender, c: GrammaticalCase): DeclineResult {
+  if (!CYRILLIC_WORD.test(word)) return { ok: false, reason: "имя не на кириллице" };
+  const lower = word.toLowerCase();
+
+  const forms = FIRST_NAME_FORMS[lower];
+  if (forms) return ok(matchCase(word, endingFor(forms, c)));
+  const stem = FLUENT_VOWEL_STEMS[lower];
+  if (stem) return ok(matchCase(word, stem + endingFor(hardConsonantEndings(stem), c)));
+
+  if (lower.endsWith("а")) return ok(withEnding(word, 1, aEndings(lower), c));
+  if (lower.endsWith("я")) return ok(withEnding(word, 1, yaEndings(lower), c));
+  if (lower.endsWith("ий")) return ok(withEnding(word, 1, ["я", "ю", "я", "ем", "и"], c));
+  if (lower.endsWith("й")) return ok(withEnding(word, 1, SOFT_MASCULINE, c));
+  if (INDECLINABLE_VOWEL.test(lower)) return ok(word);
+
+  if (lower.endsWith("ь")) {
+    if (gender === "М") return ok(withEnding(word, 1, SOFT_MASCULINE, c));
+    if (gender === "Ж") return ok(withEnding(word, 1, ["и", "и", "ь", "ью", "и"], c));
+    return { ok: false, reason: "не указан пол" };
+  }
+  if (CONSONANT.test(lower)) {
+    if (gender === "М") return ok(withEnding(word, 0, hardConsonantEndings(lower), c));
+    // Female names ending in a consonant (Элис, Кэтрин) are not declined
+    if (gender === "Ж") return ok(word);
+    return { ok: false, reason: "не указан пол" };
+  }
+  return { ok: false, reason: "непривычное окончание" };
+}
+
+function declineOneLastName(word: string, gender: Gender, c: GrammaticalCase): DeclineResult {
+  if (!CYRILLIC_WORD.test(word)) return { ok: false, reason: "фамилия не на кириллице" };
+  const lower = word.toLowerCase();
+
+  // Never declined, whoever carries them: Шевченко, Черных, Дурново, Живаго
+  if (/(ко|их|ых|аго|яго)$/.test(lower) || INDECLINABLE_VOWEL.test(lower)) return ok(word);
+
+  // The ending itself tells the gender
+  if (/(ов|ев|ёв|ин|ын)$/.test(lower)) return ok(withEnding(word, 0, ["а", "у", "а", "ым", "е"], c));
+  if (/(ова|ева|ёва|ина|ына)$/.test(lower)) return ok(withEnding(word, 1, ["ой", "ой", "у", "ой", "ой"], c));
+  if (lower.endsWith("ая")) return ok(withEnding(word, 2, ["ой", "ой", "ую", "ой", "ой"], c));
+  if (lower.endsWith("яя")) return ok(withEnding(word, 2, ["ей", "ей", "юю", "ей", "ей"], c));
+  if (/[ыо]й$/.test(lower)) {
+    const ins = VELAR_OR_SIBILANT.test(lower.slice(0, -2)) ? "им" : "ым";
+    return ok(withEnding(word, 2, ["ого", "ому", "ого", ins, "ом"], c));
+  }
+  if (lower.endsWith("ий")) {
+    const hard = /[гкхжчшщц]$/.test(lower.slice(0, -2));
+    const endings: Endings = hard ? ["ого", "ому", "ого", "им", "ом"] : ["его", "ему", "его", "им", "ем"];
+    return ok(withEnding(word, 2, endings, c));
+  }
+
+  // The same for both genders: Глинка, Зоря, Гарсия
+  if (lower.endsWith("а")) return ok(withEnding(word, 1, aEndings(lower), c));
+  if (lower.endsWith("я")) return ok(withEnding(word, 1, yaEndings(lower), c));
+
+  // Consonant endings decline for men only: Шевчук — Шевчуку, but Анна Шевчук — Анне Шевчук
+  if (gender === "Ж") return ok(word);
+  if (gender === "") return { ok: false, reason: "не указан пол" };
+  if (lower.endsWith("ь") || lower.endsWith("й")) return ok(withEnding(word, 1, SOFT_MASCULINE, c));
+  if (CONSONANT.test(lower)) return ok(withEnding(word, 0, hardConsonantEndings(lower), c));
+  return { ok: false, reason: "непривычное окончание" };
+}
+
+export function declinePatronymic(word: string, c: GrammaticalCase): DeclineResult {
+  if (c === "nom") return ok(word);
+  const lower = word.toLowerCase();
+  if (/ич$/.test(lower)) return ok(withEnding(word, 0, ["а", "у", "а", "ем", "е"], c));
+  if (/на$/.test(lower)) return ok(withEnding(word, 1, ["ы", "е", "у", "ой", "е"], c));
+  return { ok: false, reason: "не похоже на отчество" };
+}
+
+// Double names and surnames are declined part by part: Анна-Мария, Римский-Корсаков
+function declineHyphenated(
+  value: string,
+  c: GrammaticalCase,
+  declineOne: (word: string, c: GrammaticalCase) => DeclineResult
+): DeclineResult {
+  const trimmed = value.trim();
+  if (c === "nom" || !trimmed) return ok(value);
+  const parts: string[] = [];
+  for (const part of trimmed.split("-")) {
+    const res = declineOne(part, c);
+    if (!res.ok) return res;
+    parts.push(res.value);
+  }
+  return ok(parts.join("-"));
+}
+
+export function declineFirstName(name: string, gender: Gender, c: GrammaticalCase): DeclineResult {
+  return declineHyphenated(name, c, (w, cc) => declineOneFirstName(w, gender, cc));
+}
+
+export function declineLastName(name: string, gender: Gender, c: GrammaticalCase): DeclineResult {
+  return declineHyphenated(name, c, (w, cc) => declineOneLastName(w, gender, cc));
+}
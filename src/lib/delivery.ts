@@ -0,0 +1,88 @@
+import { contactAttachment } from "./attachments";
+import type { Contact } from "./contact";
+import { OPT_OUT_REASON } from "./optOut";
+import type { MessageExtras, SendOutcome } from "./sendRun";
+import { processMessage } from "./template";
+import type { TemplatePicker } from "./variants";
+import { VkApiError, type VkClient } from "./vkApi";
+
+// One message to one contact, from the template to messages.send. Shared by the page and the
+// command line; what became of the contact is reported through onUpdate as it happens.
+
+export interface DeliveryOptions {
+  randomId: number;
+  extras?: MessageExtras;
+  // Set when sending as a community: the dialog is addressed by peer_id
+  community?: { groupId?: number };
+  // Checked at the moment of sending, so a stop list edited mid-run applies at once
+  isOptedOut?: (contact: Contact) => boolean;
+  onUpdate: (updates: Partial<Contact>) => void;
+}
+
+// Throws only when the token is unusable or a captcha was left unanswered,
+// so a run can stop instead of failing row by row
+export async function deliverMessage(
+  client: VkClient,
+  contact: Contact,
+  pick: TemplatePicker,
+  options: DeliveryOptions
+): Promise<SendOutcome> {
+  const { randomId, extras = {}, community, isOptedOut, onUpdate } = options;
+  if (contact.vkId === "—") return "skipped";
+  if (isOptedOut?.(contact)) {
+    onUpdate({ status: "skipped", skipReason: OPT_OUT_REASON });
+    return "skipped";
+  }
+
+  // Process placeholders
+  const picked = pick(contact);
+  if (picked.error !== null) {
+    onUpdate({ status: "error", errorMsg: picked.error });
+    return "skipped";
+  }
+  const { text, error } = processMessage(picked.template, contact);
+  if (error) {
+    onUpdate({ status: "error", errorMsg: error, variant: picked.variant });
+    return "skipped";
+  }
+  const media = contactAttachment(contact, extras.attachments ?? [], extras.attachmentColumn);
+  if (media.error !== null) {
+    onUpdate({ status: "error", errorMsg: media.error });
+    return "skipped";
+  }
+  const attachment = media.attachment || undefined;
+
+  onUpdate({
+    status: "sending",
+    errorMsg: undefined,
+    errorCode: undefined,
+    sentText: text,
+    sentAttachment: attachment,
+    variant: picked.variant,
+  });
+
+  try {
+    const messageId = await client.messagesSend(
+      community
+        ? {
+            peerId: contact.vkId,
+            groupId: community.groupId,
+            message: text,
+            randomId,
+            keyboard: extras.keyboard,
+            attachment,
+          }
+        : { userId: contact.vkId, message: text, randomId, attachment }
+    );
+    onUpdate({ status: "sent", sentAt: Date.now(), messageId });
+    return "sent";
+  } catch (err) {
+    onUpdate({
+      status: "error",
+      errorMsg: err instanceof Error ? err.message : "Ошибка сети",
+      errorCode: err instanceof VkApiError ? err.code : undefined,
+    });
+    if (err instanceof VkApiError && (err.kind === "token" || err.kind === "captcha")) throw err;
+    return "failed";
+  }
+}
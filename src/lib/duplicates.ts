@@ -0,0 +1,58 @@
+import type { Contact } from "./contact";
+
+// The person a contact points to: the numeric ID once known, otherwise the short name.
+// A screen name and the ID it resolves to only match after "Определить ID".
+export function contactKey(contact: Contact): string | null {
+  if (contact.vkId !== "—") return `id${contact.vkId}`;
+  if (contact.screenName) return contact.screenName.toLowerCase();
+  return null;
+}
+
+// Groups of contacts that point to the same person, in table order
+export function findDuplicates(contacts: Contact[]): Contact[][] {
+  const groups = new Map<string, Contact[]>();
+  for (const c of contacts) {
+    const key = contactKey(c);
+    if (!key) continue;
+    const group = groups.get(key);
+    if (group) group.push(c);
+    else groups.set(key, [c]);
+  }
+  return [...groups.values()].filter((g) => g.length > 1);
+}
+
+// The gender goes with where it came from, so a merged row keeps the right review mark
+function genderOf(c: Contact): Pick<Contact, "gender" | "genderSource" | "genderConfidence" | "genderBasis"> {
+  return { gender: c.gender, genderSource: c.genderSource, genderConfidence: c.genderConfidence, genderBasis: c.genderBasis };
+}
+
+// Keeps one contact per group where the first row stood: the one already messaged if any, so
+// its result is not lost, otherwise the first. Empty fields are filled in from the other rows.
+export function mergeDuplicates(contacts: Contact[], groups: Contact[][]): Contact[] {
+  const merged = new Map<string, Contact>();
+  const dropped = new Set<string>();
+
+  for (const group of groups) {
+    const keeper = group.find((c) => c.status === "sent") ?? group[0];
+    let result = keeper;
+    for (const other of group) {
+      if (other === keeper) continue;
+      const vars = { ...other.vars, ...result.vars };
+      for (const [key, value] of Object.entries(result.vars ?? {})) {
+        if (!value) vars[key] = other.vars?.[key] ?? "";
+      }
+      result = {
+        ...result,
+        fullName: result.fullName || other.fullName,
+        firstName: result.firstName || other.firstName,
+        lastName: result.lastName || other.lastName,
+        ...(result.gender ? genderOf(result) : genderOf(other)),
+        vars,
+      };
+    }
+    merged.set(group[0].id, result);
+    for (const c of group.slice(1)) dropped.add(c.id);
+  }
+
+  return contacts.filter((c) => !dropped.has(c.id)).map((c) => merged.get(c.id) ?? c);
+}
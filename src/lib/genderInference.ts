@@ -0,0 +1,104 @@
+import type { Gender } from "./contact";
+
+// Guesses gender from what the spreadsheet already has: a patronymic settles it, a surname
+// ending nearly does, and a first name from the dictionary is good enough on its own.
+// Names only matched by their ending are a guess that the operator should look at.
+
+export type GenderConfidence = "high" | "medium" | "low";
+
+export interface GenderGuess {
+  gender: Exclude<Gender, "">;
+  confidence: GenderConfidence;
+  // What the guess rests on, for the tooltip
+  basis: string;
+}
+
+const MALE_NAMES = new Set(
+  (
+    "александр алексей анатолий андрей антон аркадий арсений артём артем артур богдан борис вадим валентин " +
+    "валерий василий виктор виталий владимир владислав всеволод вячеслав гавриил геннадий георгий герман глеб " +
+    "григорий давид даниил данил данила денис дмитрий евгений егор елисей захар иван игнат игорь илья иосиф " +
+    "кирилл клим константин кузьма лев леонид лука макар максим марат марк матвей мирон михаил назар никита " +
+    "никифор николай олег оскар павел пётр петр платон прохор роберт родион роман ростислав руслан рустам савва " +
+    "савелий святослав семён семен сергей станислав степан тарас тимофей тимур трофим фёдор федор филипп фома " +
+    "эдуард эмиль эрик юлиан юрий яков ян ярослав " +
+    "алёша алеша боря вадик валера ваня вася витя вова гоша гриша дима дёма жора костя коля лёня лёша леша " +
+    "макс миша петя паша серёжа сережа стас стёпа тёма тема толя федя юра"
+  ).split(" ")
+);
+
+const FEMALE_NAMES = new Set(
+  (
+    "агата аделина александра алёна алена алина алиса алла альбина анастасия ангелина анжела анна антонина " +
+    "арина валентина валерия варвара василиса вера вероника виктория виолетта галина дарина дарья диана ева " +
+    "евгения екатерина елена елизавета есения жанна зарина злата зинаида зоя инна ирина карина кира клавдия " +
+    "кристина ксения лариса лидия лилия любовь людмила майя маргарита марина мария маша милана мирослава " +
+    "надежда нелли нина нинель оксана олеся ольга полина раиса регина римма светлана серафима снежана софия " +
+    "софья стефания таисия тамара татьяна ульяна эвелина элина эльвира эмилия юлия яна ярослава " +
+    "аня варя вика галя даша ира катя ксюша лена лиза люба люда настя надя наташа оля поля света соня " +
+    "таня тома юля"
+  ).split(" ")
+);
+
+// Short forms used by both: Саша, Женя, Валя, Слава
+const AMBIGUOUS_NAMES = new Set(["саша", "женя", "валя", "слава", "шура", "мира"]);
+
+function guessFromPatronymic(word: string): GenderGuess | null {
+  if (/(ович|евич|ьич|ич)$/.test(word)) return { gender: "М", confidence: "high", basis: "отчество" };
+  if (/(овна|евна|ична|инична)$/.test(word)) return { gender: "Ж", confidence: "high", basis: "отчество" };
+  return null;
+}
+
+// -ин/-ина is less certain than -ов/-ова: plenty of foreign names end that way (Мартин, Кэтрин)
+function guessFromSurname(word: string): GenderGuess | null {
+  if (/(ова|ева|ёва|ская|цкая)$/.test(word)) return { gender: "Ж", confidence: "high", basis: "фамилия" };
+  if (/(ов|ев|ёв|ский|цкий)$/.test(word)) return { gender: "М", confidence: "high", basis: "фамилия" };
+  if (/(ина|ына|ая|яя)$/.test(word)) return { gender: "Ж", confidence: "medium", basis: "фамилия" };
+  if (/(ин|ын)$/.test(word)) return { gender: "М", confidence: "medium", basis: "фамилия" };
+  if (/(ый|ой|ий)$/.test(word)) return { gender: "М", confidence: "medium", basis: "фамилия" };
+  return null;
+}
+
+function guessFromDictionary(word: string): GenderGuess | null {
+  if (MALE_NAMES.has(word)) return { gender: "М", confidence: "high", basis: "имя" };
+  if (FEMALE_NAMES.has(word)) return { gender: "Ж", confidence: "high", basis: "имя" };
+  return null;
+}
+
+// Outside the dictionary only the ending is left to go on
+function guessFromNameEnding(word: string): GenderGuess | null {
+  if (/[ая]$/.test(word)) return { gender: "Ж", confidence: "low", basis: "окончание имени" };
+  if (/[бвгджзклмнпрстфхцчшщй]$/.test(word)) return { gender: "М", confidence: "low", basis: "окончание имени" };
+  return null;
+}
+
+const RANK: Record<GenderConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+// Every word is tried on its own, since columns are not always what their header says
+// ("Петрова Анна" in an "Имя Фамилия" column). Null when nothing points either way.
+export function inferGender(names: { fullName: string; firstName: string; lastName?: string }): GenderGuess | null {
+  const words = new Set(
+    [names.fullName, names.firstName, names.lastName ?? ""]
+      .join(" ")
+      .toLowerCase()
+      .split(/[\s-]+/)
+      .filter(Boolean)
+  );
+
+  const guesses: GenderGuess[] = [];
+  for (const w of words) {
+    if (AMBIGUOUS_NAMES.has(w)) continue;
+    const guess = guessFromPatronymic(w) ?? guessFromDictionary(w) ?? guessFromSurname(w) ?? guessFromNameEnding(w);
+    if (guess) guesses.push(guess);
+  }
+  if (guesses.length === 0) return null;
+
+  const best = guesses.reduce((a, b) => (RANK[b.confidence] > RANK[a.confidence] ? b : a));
+  const disagree = guesses.some((g) => g.gender !== best.gender && RANK[g.confidence] >= RANK.medium);
+  if (disagree) return { ...best, confidence: "low", basis: `${best.basis}, но есть противоречие` };
+
+  // Two independent hints that agree are as good as one certain one
+  const agreeing = guesses.filter((g) => g.gender === best.gender);
+  const confidence = best.confidence === "low" && agreeing.length > 1 ? "medium" : best.confidence;
+  return { ...best, confidence, basis: [...new Set(agreeing.map((g) => g.basis))].join(", ") };
+}
@@ -0,0 +1,9 @@
+// FNV-1a: small, fast and stable across sessions; not for anything security-related
+export function hashString(value: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
@@ -0,0 +1,23 @@
+import { VkNetworkError, type VkTransport } from "./vkApi";
+
+const API_BASE = "https://api.vk.com/method/";
+const TIMEOUT_MS = 15000;
+
+// Plain HTTPS POST for Node and other places without CORS rules; the browser has to use jsonpTransport.
+// Parameters go in the body, so long messages do not run into URL length limits.
+export const httpTransport: VkTransport = async (method, params) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(`${API_BASE}${method}`, {
+      method: "POST",
+      body: new URLSearchParams(params),
+      signal: controller.signal,
+    });
+    return await res.json();
+  } catch (err) {
+    throw new VkNetworkError(controller.signal.aborted ? "Таймаут запроса" : `Ошибка сети: ${(err as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,39 @@
+import type { Contact } from "./contact";
+import { buildContacts, readImportFile, readTextTable, type ImportMapping, type ImportSource } from "./importer";
+
+// Runs in a worker: a spreadsheet with tens of thousands of rows takes seconds to parse, and as
+// long again to turn into contacts (link parsing, gender guessing), and the page should keep
+// scrolling and show how far it has got meanwhile
+
+export type ImportRequest = { fileName: string } & ({ data: ArrayBuffer } | { text: string });
+
+export interface BuildRequest {
+  rows: string[][];
+  mapping: ImportMapping;
+}
+
+export type ImportReply =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; source: ImportSource }
+  | { type: "built"; contacts: Contact[] }
+  | { type: "error"; message: string };
+
+const reply = (message: ImportReply) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<ImportRequest | BuildRequest>) => {
+  const request = e.data;
+  const onProgress = (done: number, total: number) => reply({ type: "progress", done, total });
+  try {
+    if ("rows" in request) {
+      reply({ type: "built", contacts: buildContacts(request.rows, request.mapping, onProgress) });
+      return;
+    }
+    const source =
+      "text" in request
+        ? readTextTable(request.text, request.fileName, onProgress)
+        : readImportFile(request.data, request.fileName, onProgress);
+    reply({ type: "done", source });
+  } catch (err) {
+    reply({ type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
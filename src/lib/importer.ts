@@ -0,0 +1,373 @@
+import * as XLSX from "xlsx";
+import { createId, parseGender, type Contact, type Gender } from "./contact";
+import { inferGender } from "./genderInference";
+import { hashString } from "./hash";
+import { loadJson, saveJson } from "./storage";
+import { normalizeVarName } from "./template";
+import { parseVkLink } from "./vkLinks";
+
+export interface ImportSheet {
+  name: string;
+  rows: string[][];
+}
+
+// A file (or pasted table) read into plain cells, before any column means anything
+export interface ImportSource {
+  fileName: string;
+  sheets: ImportSheet[];
+}
+
+export type ColumnRole = "ignore" | "fullName" | "firstName" | "lastName" | "link" | "gender" | "variable";
+
+export interface ColumnMapping {
+  role: ColumnRole;
+  // Template variable name for role "variable"
+  varName?: string;
+}
+
+export interface ImportMapping {
+  headerRow: boolean;
+  columns: ColumnMapping[];
+}
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  ignore: "Не загружать",
+  fullName: "Имя Фамилия",
+  firstName: "Имя",
+  lastName: "Фамилия",
+  link: "Ссылка ВК",
+  gender: "Пол",
+  variable: "Переменная",
+};
+
+// How far reading a file has got, in the units of its current stage (characters of a text
+// file, sheets of a workbook, rows turned into contacts)
+export type ImportProgress = (done: number, total: number) => void;
+
+// Roles that make sense for one column only
+const SINGLE_ROLES: ColumnRole[] = ["fullName", "firstName", "lastName", "link", "gender"];
+
+export function readWorkbook(data: ArrayBuffer, fileName: string, onProgress?: ImportProgress): ImportSource {
+  const workbook = XLSX.read(new Uint8Array(data), { type: "array" });
+  const sheets = workbook.SheetNames.map((name, i) => {
+    onProgress?.(i, workbook.SheetNames.length);
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], {
+      header: 1,
+      defval: "",
+      raw: false,
+      blankrows: false,
+    });
+    return { name, rows: rows.map((row) => row.map((cell) => String(cell ?? "").trim())) };
+  });
+  return { fileName, sheets };
+}
+
+export const IMPORT_ACCEPT = ".xlsx,.xls,.ods,.csv,.tsv,.txt";
+
+// BOM first, then strict UTF-8; anything that is not valid UTF-8 is taken to be cp1251,
+// which is what Russian Excel and most CRMs write
+export function decodeText(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes).replace(/^\uFEFF/, "");
+  } catch {
+    return new TextDecoder("windows-1251").decode(bytes);
+  }
+}
+
+const DELIMITERS = ["\t", ";", ",", "|"];
+
+// Counts a delimiter per line outside quotes over the first lines; the winner is the one
+// that appears on every line the same number of times, preferring more columns.
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim()).slice(0, 20);
+  if (lines.length === 0) return "\t";
+
+  let best = { delimiter: "\t", score: -1 };
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((line) => {
+      let n = 0;
+      let quoted = false;
+      for (const ch of line) {
+        if (ch === '"') quoted = !quoted;
+        else if (ch === delimiter && !quoted) n++;
+      }
+      return n;
+    });
+    if (counts[0] === 0) continue;
+    const consistent = counts.filter((c) => c === counts[0]).length / counts.length;
+    const score = consistent * 100 + counts[0];
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+// Characters between progress reports while parsing text
+const PROGRESS_STEP = 1 << 16;
+
+// RFC 4180: quoted fields may contain the delimiter, line breaks and doubled quotes
+export function parseDelimited(text: string, delimiter: string, onProgress?: ImportProgress): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (onProgress && i % PROGRESS_STEP === 0) onProgress(i, text.length);
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field.trim());
+      if (row.some((c) => c)) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field.trim());
+  if (row.some((c) => c)) rows.push(row);
+  return rows;
+}
+
+export function readTextTable(text: string, fileName: string, onProgress?: ImportProgress): ImportSource {
+  const rows = parseDelimited(text, detectDelimiter(text), onProgress);
+  return { fileName, sheets: [{ name: fileName, rows }] };
+}
+
+// Picks the reader by extension: CSV/TSV/TXT as text, everything else (xlsx, xls, ods) through SheetJS
+export function readImportFile(data: ArrayBuffer, fileName: string, onProgress?: ImportProgress): ImportSource {
+  if (/\.(csv|tsv|txt)$/i.test(fileName)) return readTextTable(decodeText(data), fileName, onProgress);
+  return readWorkbook(data, fileName, onProgress);
+}
+
+export function columnCount(rows: string[][]): number {
+  return rows.reduce((max, row) => Math.max(max, row.length), 0);
+}
+
+// Excel-style letter for a zero-based column index: 0 → A, 27 → AB
+export function columnLetter(index: number): string {
+  let s = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  }
+  return s;
+}
+
+const HEADER_WORDS = new Set(["имя", "фамилия", "фио", "ссылка", "vk", "вк", "name", "link", "пол", "профиль"]);
+
+// "Ссылка ВК" → ["ссылка", "вк"]
+function cellWords(cell: string): string[] {
+  return cell.toLowerCase().replace(/ё/g, "е").split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+// A single plain word ("VK", "Email") would pass for a screen name, but it is a column title
+function looksLikeLink(cell: string): boolean {
+  return !/^\p{L}+$/u.test(cell.trim()) && parseVkLink(cell).kind !== "rejected";
+}
+
+// A header has a column title ("Имя", "Ссылка ВК") and no links: a data row has a link in some cell
+export function guessHeaderRow(rows: string[][]): boolean {
+  const first = rows[0];
+  if (!first || first.some(looksLikeLink)) return false;
+  return first.some((cell) => cellWords(cell).some((w) => HEADER_WORDS.has(w)));
+}
+
+function roleFromHeader(header: string): ColumnRole | null {
+  const h = header.toLowerCase();
+  if (!h) return null;
+  if (/ссылк|link|url|профил|страниц|vk|^вк|\sвк|^id$/.test(h)) return "link";
+  if (/^пол$|gender|sex/.test(h)) return "gender";
+  if (/фио|full/.test(h) || (h.includes("имя") && h.includes("фамилия"))) return "fullName";
+  if (/фамилия|surname|last/.test(h)) return "lastName";
+  if (/^имя$|first/.test(h)) return "firstName";
+  if (/name|имя|контакт/.test(h)) return "fullName";
+  return null;
+}
+
+function roleFromValues(values: string[]): ColumnRole | null {
+  const filled = values.filter(Boolean);
+  if (filled.length === 0) return null;
+  const share = (test: (v: string) => boolean) => filled.filter(test).length / filled.length;
+
+  if (share((v) => /vk\.(com|ru)|^@|^\[id\d+\|/i.test(v)) >= 0.6) return "link";
+  if (share((v) => parseGender(v) !== "") >= 0.8) return "gender";
+  if (share((v) => /^[А-ЯЁA-Z][а-яёa-z-]+(\s+[А-ЯЁA-Z][а-яёa-z-]+)+$/.test(v)) >= 0.6) return "fullName";
+  return null;
+}
+
+export function guessMapping(rows: string[][], headerRow: boolean): ImportMapping {
+  const header = headerRow ? rows[0] ?? [] : [];
+  const body = rows.slice(headerRow ? 1 : 0, (headerRow ? 1 : 0) + 50);
+  const taken = new Set<ColumnRole>();
+
+  const columns = Array.from({ length: columnCount(rows) }, (_, col): ColumnMapping => {
+    const title = header[col] ?? "";
+    let role = roleFromHeader(title) ?? roleFromValues(body.map((r) => r[col] ?? ""));
+    if (role && SINGLE_ROLES.includes(role)) {
+      if (taken.has(role)) role = null;
+      else taken.add(role);
+    }
+    if (role) return { role };
+    return { role: "variable", varName: defaultVarName(title, col) };
+  });
+  return { headerRow, columns };
+}
+
+export function defaultVarName(header: string, col: number): string {
+  const name = normalizeVarName(header.replace(/[{}|:\\]/g, " "));
+  return name || `столбец ${columnLetter(col).toLowerCase()}`;
+}
+
+// Identifies a spreadsheet layout, so a mapping confirmed once is reused for the next export
+export function layoutKey(rows: string[][], headerRow: boolean): string {
+  const shape = headerRow
+    ? (rows[0] ?? []).map((h) => normalizeVarName(h)).join("\u0001")
+    : `#${columnCount(rows)}`;
+  return hashString(shape).toString(36);
+}
+
+const MAPPINGS_KEY = "importMappings";
+
+export function loadSavedMapping(rows: string[][]): ImportMapping | null {
+  const saved = loadJson<Record<string, ImportMapping>>(MAPPINGS_KEY) ?? {};
+  // Try the header-row variant first: its key is more specific than the column count
+  for (const headerRow of [true, false]) {
+    const mapping = saved[layoutKey(rows, headerRow)];
+    if (mapping && mapping.headerRow === headerRow && mapping.columns.length === columnCount(rows)) {
+      return mapping;
+    }
+  }
+  return null;
+}
+
+export function saveMapping(rows: string[][], mapping: ImportMapping): void {
+  const saved = loadJson<Record<string, ImportMapping>>(MAPPINGS_KEY) ?? {};
+  saved[layoutKey(rows, mapping.headerRow)] = mapping;
+  saveJson(MAPPINGS_KEY, saved);
+}
+
+// Titles for the report: the header cell, or the column letter when there is none or it repeats
+export function columnTitles(rows: string[][], headerRow: boolean): string[] {
+  const titles: string[] = [];
+  for (let col = 0; col < columnCount(rows); col++) {
+    const header = headerRow ? (rows[0]?.[col] ?? "").trim() : "";
+    titles.push(header && !titles.includes(header) ? header : `Столбец ${columnLetter(col)}`);
+  }
+  return titles;
+}
+
+export function mappingProblem(mapping: ImportMapping): string | null {
+  const roles = mapping.columns.map((c) => c.role);
+  if (!roles.includes("link")) return "Укажите столбец со ссылкой ВК";
+  for (const role of SINGLE_ROLES) {
+    if (roles.filter((r) => r === role).length > 1) {
+      return `Роль «${COLUMN_ROLE_LABELS[role]}» выбрана для нескольких столбцов`;
+    }
+  }
+  const names = mapping.columns.filter((c) => c.role === "variable").map((c) => normalizeVarName(c.varName ?? ""));
+  if (names.some((n) => !n)) return "У переменной не указано имя";
+  if (names.some((n) => /[{}|:\\]/.test(n))) return "Имя переменной не может содержать { } | : \\";
+  const dup = names.find((n, i) => names.indexOf(n) !== i);
+  if (dup) return `Переменная {${dup}} указана дважды`;
+  return null;
+}
+
+function cellReader(mapping: ImportMapping) {
+  return (row: string[], role: ColumnRole) => {
+    const col = mapping.columns.findIndex((c) => c.role === role);
+    return col === -1 ? "" : (row[col] ?? "").trim();
+  };
+}
+
+// Rows with neither a name nor a link (blank lines, totals) are not contacts
+const CONTACT_ROLES: ColumnRole[] = ["fullName", "firstName", "lastName", "link"];
+
+// How many contacts buildContacts would make, without the link parsing and gender guessing
+export function countContacts(rows: string[][], mapping: ImportMapping): number {
+  const cellFor = cellReader(mapping);
+  let n = 0;
+  for (const row of rows.slice(mapping.headerRow ? 1 : 0)) {
+    if (row && CONTACT_ROLES.some((role) => cellFor(row, role))) n++;
+  }
+  return n;
+}
+
+// Rows between progress reports while building contacts
+const BUILD_PROGRESS_STEP = 1000;
+
+// The single path from table rows to contacts, whatever the source format
+export function buildContacts(rows: string[][], mapping: ImportMapping, onProgress?: ImportProgress): Contact[] {
+  const contacts: Contact[] = [];
+  const titles = columnTitles(rows, mapping.headerRow);
+  const cellFor = cellReader(mapping);
+
+  const body = rows.slice(mapping.headerRow ? 1 : 0);
+  for (let i = 0; i < body.length; i++) {
+    if (onProgress && i % BUILD_PROGRESS_STEP === 0) onProgress(i, body.length);
+    const row = body[i];
+    if (!row || !CONTACT_ROLES.some((role) => cellFor(row, role))) continue;
+
+    const link = cellFor(row, "link");
+    let fullName = cellFor(row, "fullName");
+    let firstName = cellFor(row, "firstName");
+    let lastName = cellFor(row, "lastName");
+    if (!fullName) fullName = [firstName, lastName].filter(Boolean).join(" ");
+    if (!firstName) firstName = fullName.split(/\s+/)[0] || "";
+    if (!lastName && !cellFor(row, "firstName")) lastName = fullName.split(/\s+/).slice(1).join(" ");
+
+    const vars: Record<string, string> = {};
+    mapping.columns.forEach((c, col) => {
+      if (c.role === "variable" && c.varName) vars[normalizeVarName(c.varName)] = (row[col] ?? "").trim();
+    });
+
+    const source: Record<string, string> = {};
+    titles.forEach((title, col) => {
+      source[title] = (row[col] ?? "").trim();
+    });
+
+    const givenGender = parseGender(cellFor(row, "gender"));
+    const guess = givenGender ? null : inferGender({ fullName, firstName, lastName });
+    const gender: Gender = givenGender || guess?.gender || "";
+
+    const parsedLink = parseVkLink(link);
+    const base = {
+      id: createId(),
+      fullName,
+      firstName,
+      lastName,
+      gender,
+      genderSource: givenGender ? ("given" as const) : guess ? ("inferred" as const) : undefined,
+      genderConfidence: guess?.confidence,
+      genderBasis: guess?.basis,
+      rawLink: link,
+      vars,
+      source,
+    };
+
+    if (parsedLink.kind === "id") {
+      contacts.push({ ...base, vkId: parsedLink.id, status: "idle" });
+    } else if (parsedLink.kind === "screenName") {
+      contacts.push({ ...base, vkId: "—", screenName: parsedLink.screenName, status: "idle" });
+    } else {
+      contacts.push({ ...base, vkId: "—", status: "error", errorMsg: parsedLink.reason });
+    }
+  }
+  return contacts;
+}
@@ -0,0 +1,54 @@
+import { VkNetworkError, type VkTransport } from "./vkApi";
+
+const API_BASE = "https://api.vk.com/method/";
+const TIMEOUT_MS = 15000;
+
+type CallbackRegistry = Record<string, ((data: unknown) => void) | undefined>;
+
+// JSONP helper to bypass CORS
+export function jsonp(url: string, timeoutMs = TIMEOUT_MS): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const registry = window as unknown as CallbackRegistry;
+    const callbackName = `vk_cb_${Date.now()}_${Math.floor(Math.random() * 100000)}`;
+    const script = document.createElement("script");
+    let settled = false;
+
+    const cleanup = () => {
+      settled = true;
+      clearTimeout(timer);
+      script.onerror = null;
+      if (script.parentNode) script.parentNode.removeChild(script);
+      // A response that arrives after the timeout must not hit an undefined global
+      registry[callbackName] = () => {
+        delete registry[callbackName];
+      };
+    };
+
+    registry[callbackName] = (data) => {
+      if (settled) return;
+      cleanup();
+      delete registry[callbackName];
+      resolve(data);
+    };
+
+    script.src = `${url}${url.includes("?") ? "&" : "?"}callback=${callbackName}`;
+    script.onerror = () => {
+      if (settled) return;
+      cleanup();
+      reject(new VkNetworkError("Ошибка загрузки скрипта (сеть)"));
+    };
+
+    const timer = setTimeout(() => {
+      if (settled) return;
+      cleanup();
+      reject(new VkNetworkError("Таймаут запроса"));
+    }, timeoutMs);
+
+    document.body.appendChild(script);
+  });
+}
+
+export const jsonpTransport: VkTransport = (method, params) => {
+  const query = new URLSearchParams(params);
+  return jsonp(`${API_BASE}${method}?${query.toString()}`);
+};
@@ -0,0 +1,109 @@
+import { createId } from "./contact";
+
+// Bot keyboards that a community can attach to its messages. Inline ones sit under the
+// message; regular ones replace the phone's keyboard until the person answers.
+
+export type KeyboardButtonType = "text" | "open_link" | "callback";
+
+// VK's names for the colours: blue, white, red, green
+export type KeyboardButtonColor = "primary" | "secondary" | "negative" | "positive";
+
+export interface KeyboardButton {
+  id: string;
+  type: KeyboardButtonType;
+  label: string;
+  // open_link only
+  link?: string;
+  // Sent back to the community when the button is pressed; text and callback only
+  payload?: string;
+  color: KeyboardButtonColor;
+}
+
+export interface MessageKeyboard {
+  inline: boolean;
+  // Hide a regular keyboard after the first press
+  oneTime: boolean;
+  rows: KeyboardButton[][];
+}
+
+export const BUTTON_TYPE_LABELS: Record<KeyboardButtonType, string> = {
+  text: "Текст",
+  open_link: "Ссылка",
+  callback: "Callback",
+};
+
+export const BUTTON_COLOR_LABELS: Record<KeyboardButtonColor, string> = {
+  primary: "Синяя",
+  secondary: "Белая",
+  negative: "Красная",
+  positive: "Зелёная",
+};
+
+// Limits from the VK bot keyboard documentation
+const LIMITS = {
+  inline: { rows: 6, perRow: 5, total: 10 },
+  regular: { rows: 10, perRow: 5, total: 40 },
+};
+const MAX_LABEL = 40;
+const MAX_PAYLOAD = 255;
+
+export function createButton(type: KeyboardButtonType = "text"): KeyboardButton {
+  return { id: createId("btn"), type, label: "", color: "secondary" };
+}
+
+export function createKeyboard(): MessageKeyboard {
+  return { inline: true, oneTime: false, rows: [[createButton()]] };
+}
+
+// Free text is wrapped so VK gets the JSON it expects: "yes" → {"button":"yes"}
+function payloadJson(payload: string | undefined): string | undefined {
+  const trimmed = payload?.trim();
+  if (!trimmed) return undefined;
+  try {
+    JSON.parse(trimmed);
+    return trimmed;
+  } catch {
+    return JSON.stringify({ button: trimmed });
+  }
+}
+
+// The first thing wrong with the keyboard, or null when VK should accept it
+export function keyboardProblem(keyboard: MessageKeyboard): string | null {
+  const limits = keyboard.inline ? LIMITS.inline : LIMITS.regular;
+  const rows = keyboard.rows.filter((row) => row.length > 0);
+  const kind = keyboard.inline ? "встроенной" : "обычной";
+  if (rows.length === 0) return "В клавиатуре нет ни одной кнопки";
+  if (rows.length > limits.rows) return `В ${kind} клавиатуре не больше ${limits.rows} рядов`;
+  if (rows.some((row) => row.length > limits.perRow)) return `В ряду не больше ${limits.perRow} кнопок`;
+  if (rows.flat().length > limits.total) return `В ${kind} клавиатуре не больше ${limits.total} кнопок`;
+
+  for (const button of rows.flat()) {
+    if (!button.label.trim()) return "У кнопки нет надписи";
+    const name = `Кнопка «${button.label.trim()}»`;
+    if (button.label.length > MAX_LABEL) return `${name}: надпись длиннее ${MAX_LABEL} символов`;
+    if (button.type === "open_link" && !/^https?:\/\/\S+$/i.test(button.link?.trim() ?? "")) {
+      return `${name}: нужна ссылка, начинающаяся с http:// или https://`;
+    }
+    if ((payloadJson(button.payload)?.length ?? 0) > MAX_PAYLOAD) {
+      return `${name}: данные кнопки длиннее ${MAX_PAYLOAD} символов`;
+    }
+  }
+  return null;
+}
+
+// The keyboard parameter of messages.send
+export function serializeKeyboard(keyboard: MessageKeyboard): string {
+  const buttons = keyboard.rows
+    .filter((row) => row.length > 0)
+    .map((row) =>
+      row.map((button) => {
+        const label = button.label.trim();
+        if (button.type === "open_link") {
+          // Link buttons have no colour
+          return { action: { type: "open_link", link: button.link?.trim(), label } };
+        }
+        return { action: { type: button.type, label, payload: payloadJson(button.payload) }, color: button.color };
+      })
+    );
+  return JSON.stringify({ one_time: keyboard.inline ? undefined : keyboard.oneTime, inline: keyboard.inline, buttons });
+}
@@ -0,0 +1,111 @@
+import type { Contact } from "./contact";
+import { loadJson, saveJson } from "./storage";
+import { parseVkLink } from "./vkLinks";
+
+// People who asked not to be messaged. Kept across sessions and files, never sent to.
+export interface OptOutEntry {
+  vkId?: string;
+  screenName?: string;
+  // Who it is, for the operator; not used for matching
+  name?: string;
+  addedAt: number;
+}
+
+const OPT_OUT_KEY = "optOut";
+
+export const OPT_OUT_REASON = "В стоп-листе";
+
+export function loadOptOut(): OptOutEntry[] {
+  return loadJson<OptOutEntry[]>(OPT_OUT_KEY) ?? [];
+}
+
+export function saveOptOut(list: OptOutEntry[]): boolean {
+  return saveJson(OPT_OUT_KEY, list);
+}
+
+export function createOptOutMatcher(list: OptOutEntry[]): (contact: Contact) => boolean {
+  const ids = new Set(list.map((e) => e.vkId).filter(Boolean));
+  const names = new Set(list.map((e) => e.screenName?.toLowerCase()).filter(Boolean));
+  return (c) =>
+    (c.vkId !== "—" && ids.has(c.vkId)) || (!!c.screenName && names.has(c.screenName.toLowerCase()));
+}
+
+export function entryFromContact(contact: Contact): OptOutEntry {
+  return {
+    vkId: contact.vkId !== "—" ? contact.vkId : undefined,
+    screenName: contact.screenName,
+    name: contact.fullName || undefined,
+    addedAt: Date.now(),
+  };
+}
+
+// Every cell that parses as a VK profile link becomes an entry; anything else is counted and ignored
+export function parseOptOutCells(cells: string[]): { entries: OptOutEntry[]; rejected: number } {
+  const entries: OptOutEntry[] = [];
+  let rejected = 0;
+  for (const cell of cells) {
+    if (!cell.trim()) continue;
+    const link = parseVkLink(cell);
+    if (link.kind === "id") entries.push({ vkId: link.id, addedAt: Date.now() });
+    else if (link.kind === "screenName") entries.push({ screenName: link.screenName, addedAt: Date.now() });
+    else rejected++;
+  }
+  return { entries, rejected };
+}
+
+// Adds entries that are not on the list yet; an ID learnt later is attached to a name-only entry
+export function addToOptOut(list: OptOutEntry[], added: OptOutEntry[]): OptOutEntry[] {
+  const result = [...list];
+  for (const entry of added) {
+    const existing = result.findIndex(
+      (e) =>
+        (entry.vkId && e.vkId === entry.vkId) ||
+        (entry.screenName && e.screenName?.toLowerCase() === entry.screenName.toLowerCase())
+    );
+    if (existing === -1) {
+      result.push(entry);
+    } else {
+      const e = result[existing];
+      result[existing] = {
+        ...e,
+        vkId: e.vkId ?? entry.vkId,
+        screenName: e.screenName ?? entry.screenName,
+        name: e.name ?? entry.name,
+      };
+    }
+  }
+  return result;
+}
+
+export function optOutLink(entry: OptOutEntry): string {
+  return entry.vkId ? `https://vk.com/id${entry.vkId}` : `https://vk.com/${entry.screenName}`;
+}
+
+// Same shape the import reads back: the link column is all that matters
+export function optOutRows(list: OptOutEntry[]): string[][] {
+  return [
+    ["Ссылка ВК", "Имя", "Добавлен"],
+    ...list.map((e) => [optOutLink(e), e.name ?? "", new Date(e.addedAt).toLocaleDateString("ru-RU")]),
+  ];
+}
+
+// Marks listed contacts as skipped and releases ones that are no longer listed.
+// Contacts already messaged keep their status. Returns the same array when nothing changes.
+export function applyOptOut(contacts: Contact[], list: OptOutEntry[]): Contact[] {
+  const listed = createOptOutMatcher(list);
+  let changed = false;
+  const result = contacts.map((c) => {
+    if (c.status === "sent" || c.status === "sending") return c;
+    const optedOut = listed(c);
+    if (optedOut && c.status !== "skipped") {
+      changed = true;
+      return { ...c, status: "skipped" as const, skipReason: OPT_OUT_REASON };
+    }
+    if (!optedOut && c.status === "skipped" && c.skipReason === OPT_OUT_REASON) {
+      changed = true;
+      return { ...c, status: "idle" as const, skipReason: undefined };
+    }
+    return c;
+  });
+  return changed ? result : contacts;
+}
@@ -0,0 +1,105 @@
+import type { Contact } from "./contact";
+import { VkApiError, type VkClient, type VkGroup, type VkUser } from "./vkApi";
+
+// "unknown": the check itself failed for this contact, so nothing is said about the page
+export type Deliverability = { ok: true } | { ok: false; reason: string } | { ok: "unknown"; reason: string };
+
+const USERS_GET_BATCH = 100;
+// User tokens allow 3 requests a second; the pause between users.get batches keeps under it
+const USERS_GET_DELAY_MS = 350;
+// Community tokens allow 20 requests a second; one check per user stays well under that
+const GROUP_CHECK_DELAY_MS = 100;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// The community a token belongs to, or null for a user token
+export async function detectCommunity(client: VkClient): Promise<VkGroup | null> {
+  try {
+    const groups = await client.groupsGetById();
+    return groups[0] ?? null;
+  } catch (err) {
+    if (err instanceof VkApiError && err.kind === "token") throw err;
+    return null;
+  }
+}
+
+function userDeliverability(user: VkUser | undefined, community: boolean): Deliverability {
+  if (!user) return { ok: false, reason: "Страница не найдена" };
+  if (user.deactivated === "deleted") return { ok: false, reason: "Страница удалена" };
+  if (user.deactivated) return { ok: false, reason: "Страница заблокирована" };
+  if (!community && user.can_write_private_message === 0) {
+    return {
+      ok: false,
+      reason:
+        user.is_closed && !user.can_access_closed
+          ? "Закрытый профиль, личные сообщения закрыты"
+          : "Пользователь ограничил круг тех, кто может ему писать",
+    };
+  }
+  return { ok: true };
+}
+
+// Finds out, without sending anything, who can be messaged with this token. users.get covers
+// deleted and banned pages and, for user tokens, closed DMs; for community tokens the
+// permission is asked per user with messages.isMessagesFromGroupAllowed.
+export async function checkDeliverability(
+  client: VkClient,
+  userIds: string[],
+  community: VkGroup | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, Deliverability>> {
+  const unique = [...new Set(userIds)];
+  const result = new Map<string, Deliverability>();
+  const live: string[] = [];
+
+  for (let i = 0; i < unique.length; i += USERS_GET_BATCH) {
+    if (i > 0) await sleep(USERS_GET_DELAY_MS);
+    const chunk = unique.slice(i, i + USERS_GET_BATCH);
+    try {
+      const users = await client.usersGet({
+        userIds: chunk,
+        fields: ["can_write_private_message", "is_closed", "can_access_closed"],
+      });
+      const byId = new Map(users.map((u) => [String(u.id), u]));
+      for (const id of chunk) {
+        const verdict = userDeliverability(byId.get(id), !!community);
+        result.set(id, verdict);
+        if (verdict.ok === true) live.push(id);
+      }
+    } catch (err) {
+      if (err instanceof VkApiError && err.kind === "token") throw err;
+      // One failed batch should not cost the rest of the check
+      const reason = err instanceof Error ? err.message : "Ошибка сети";
+      for (const id of chunk) result.set(id, { ok: "unknown", reason });
+    }
+    // With a community the live pages are not settled until the second pass
+    onProgress?.(community ? result.size - live.length : result.size, unique.length);
+  }
+  if (!community) return result;
+
+  for (let i = 0; i < live.length; i++) {
+    const id = live[i];
+    try {
+      const allowed = await client.messagesIsMessagesFromGroupAllowed({ groupId: community.id, userId: id });
+      if (!allowed) result.set(id, { ok: false, reason: "Пользователь не разрешил сообщения от сообщества" });
+    } catch (err) {
+      if (err instanceof VkApiError && err.kind === "token") throw err;
+      // Unknown is not the same as unreachable: leave the contact to the send itself
+    }
+    onProgress?.(unique.length - live.length + i + 1, unique.length);
+    if (i < live.length - 1) await sleep(GROUP_CHECK_DELAY_MS);
+  }
+  return result;
+}
+
+// Unreachable contacts become "unavailable" with the reason; ones that pass are released
+// from an earlier verdict. Sent and stop-listed contacts, and ones left unknown, are left alone.
+export function applyDeliverability(contacts: Contact[], results: Map<string, Deliverability>): Contact[] {
+  return contacts.map((c) => {
+    const verdict = results.get(c.vkId);
+    if (!verdict || verdict.ok === "unknown") return c;
+    if (c.status === "sent" || c.status === "sending" || c.status === "skipped") return c;
+    if (!verdict.ok) return { ...c, status: "unavailable" as const, skipReason: verdict.reason };
+    return c.status === "unavailable" ? { ...c, status: "idle" as const, skipReason: undefined } : c;
+  });
+}
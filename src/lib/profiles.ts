@@ -0,0 +1,118 @@
+import type { Contact, Gender, VkProfile } from "./contact";
+import type { GrammaticalCase } from "./declension";
+import type { VkClient } from "./vkApi";
+
+export type ProfileField = "firstName" | "lastName" | "gender";
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  firstName: "Имя",
+  lastName: "Фамилия",
+  gender: "Пол",
+};
+
+const USERS_GET_BATCH = 100;
+// User tokens allow 3 requests a second; every users.get call waits this long after the previous one
+const USERS_GET_DELAY_MS = 350;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function genderFromSex(sex: number | undefined): Gender {
+  if (sex === 1) return "Ж";
+  if (sex === 2) return "М";
+  return "";
+}
+
+// Names and gender as the person filled them in on VK, for contacts with a numeric ID,
+// along with VK's declension of the names into the given cases, for {имя:дат} and the like.
+// Each case costs one more users.get per batch, so pass only the ones the templates use.
+export async function fetchProfiles(
+  client: VkClient,
+  userIds: string[],
+  cases: GrammaticalCase[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, VkProfile>> {
+  const unique = [...new Set(userIds)];
+  const result = new Map<string, VkProfile>();
+  let calls = 0;
+  const usersGet: VkClient["usersGet"] = async (params) => {
+    if (calls++ > 0) await sleep(USERS_GET_DELAY_MS);
+    return client.usersGet(params);
+  };
+  for (let i = 0; i < unique.length; i += USERS_GET_BATCH) {
+    const chunk = unique.slice(i, i + USERS_GET_BATCH);
+    const users = await usersGet({ userIds: chunk, fields: ["sex"] });
+    for (const u of users) {
+      if (u.deactivated) continue;
+      result.set(String(u.id), {
+        firstName: u.first_name,
+        lastName: u.last_name,
+        gender: genderFromSex(u.sex),
+        cases: {},
+      });
+    }
+    for (const nameCase of cases) {
+      for (const u of await usersGet({ userIds: chunk, nameCase })) {
+        const profile = result.get(String(u.id));
+        if (profile?.cases) profile.cases[nameCase] = { firstName: u.first_name, lastName: u.last_name };
+      }
+    }
+    onProgress?.(Math.min(i + USERS_GET_BATCH, unique.length), unique.length);
+  }
+  return result;
+}
+
+export function attachProfiles(contacts: Contact[], profiles: Map<string, VkProfile>): Contact[] {
+  return contacts.map((c) => {
+    const profile = profiles.get(c.vkId);
+    return profile ? { ...c, vkProfile: profile } : c;
+  });
+}
+
+const same = (a: string, b: string) =>
+  a.trim().toLowerCase().replace(/ё/g, "е") === b.trim().toLowerCase().replace(/ё/g, "е");
+
+// The VK value for a field when it differs from the spreadsheet's (including an empty cell),
+// or null when they agree or VK has nothing to offer
+export function profileDifference(contact: Contact, field: ProfileField): string | null {
+  const vkValue = contact.vkProfile?.[field] ?? "";
+  if (!vkValue) return null;
+  return same(contact[field] ?? "", vkValue) ? null : vkValue;
+}
+
+export interface FieldDifferences {
+  field: ProfileField;
+  // Spreadsheet had a different value
+  conflicts: Contact[];
+  // Spreadsheet cell was empty
+  missing: Contact[];
+}
+
+export function summarizeDifferences(contacts: Contact[]): FieldDifferences[] {
+  return (Object.keys(PROFILE_FIELD_LABELS) as ProfileField[]).map((field) => {
+    const differing = contacts.filter((c) => c.status !== "sent" && profileDifference(c, field) !== null);
+    return {
+      field,
+      conflicts: differing.filter((c) => (c[field] ?? "").trim()),
+      missing: differing.filter((c) => !(c[field] ?? "").trim()),
+    };
+  });
+}
+
+// Takes the VK value of one field for every contact that differs, or only those in ids
+export function acceptProfileField(contacts: Contact[], field: ProfileField, ids?: Set<string>): Contact[] {
+  return contacts.map((c) => {
+    if (ids && !ids.has(c.id)) return c;
+    const vkValue = profileDifference(c, field);
+    if (vkValue === null || c.status === "sent") return c;
+    if (field === "gender") {
+      return {
+        ...c,
+        gender: vkValue as Gender,
+        genderSource: "confirmed" as const,
+        genderConfidence: undefined,
+        genderBasis: undefined,
+      };
+    }
+    return { ...c, [field]: vkValue };
+  });
+}
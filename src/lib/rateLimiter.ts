@@ -0,0 +1,146 @@
+export interface RateLimitSettings {
+  // Upper bound on sending speed; fractions mean "one message every N seconds"
+  perSecond: number;
+  // 0 disables the cap
+  perHour: number;
+  perDay: number;
+  // Random extra pause before every message
+  jitterMinMs: number;
+  jitterMaxMs: number;
+}
+
+export type RateLimitPreset = "personal" | "community" | "custom";
+
+export const RATE_LIMIT_PRESETS: Record<Exclude<RateLimitPreset, "custom">, RateLimitSettings> = {
+  // Personal pages get flood control and captchas quickly; go slow and look human
+  personal: { perSecond: 0.2, perHour: 60, perDay: 300, jitterMinMs: 1000, jitterMaxMs: 5000 },
+  // Community tokens are allowed up to 20 requests per second
+  community: { perSecond: 10, perHour: 0, perDay: 0, jitterMinMs: 0, jitterMaxMs: 200 },
+};
+
+const HOUR_MS = 3600_000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_SLOWDOWN = 16;
+// Consecutive successes needed before speeding back up one step
+const RECOVERY_STREAK = 20;
+
+export interface RateLimiterBlock {
+  reason: "rate" | "hour" | "day";
+  until: number;
+}
+
+export interface RateLimiter {
+  // Waits until the next message may go out; resolves false if cancelled meanwhile
+  wait(cancelled: () => boolean): Promise<boolean>;
+  // Call after every messages.send attempt that reached VK
+  record(delivered: boolean): void;
+  // VK answered with error 6 or 9: back off
+  reportFlood(): void;
+  // Messages per minute at the current pace
+  currentRate(): number;
+  slowdown(): number;
+  estimateMs(remaining: number): number;
+  blockedUntil(): RateLimiterBlock | null;
+  // Send timestamps of the last day, to carry the hourly/daily caps across reloads
+  history(): number[];
+}
+
+function randomBetween(min: number, max: number): number {
+  return max > min ? min + Math.random() * (max - min) : min;
+}
+
+export function createRateLimiter(settings: RateLimitSettings, initialHistory: number[] = []): RateLimiter {
+  const now = Date.now();
+  let sent = initialHistory.filter((t) => now - t < DAY_MS).sort((a, b) => a - b);
+  let factor = 1;
+  let streak = 0;
+  let jitter = randomBetween(settings.jitterMinMs, settings.jitterMaxMs);
+
+  const baseInterval = () => (settings.perSecond > 0 ? 1000 / settings.perSecond : 0);
+  const interval = () => baseInterval() * factor + jitter;
+
+  const countSince = (since: number) => {
+    let n = 0;
+    for (let i = sent.length - 1; i >= 0 && sent[i] > since; i--) n++;
+    return n;
+  };
+
+  function blockedUntil(): RateLimiterBlock | null {
+    const t = Date.now();
+    if (settings.perDay > 0 && countSince(t - DAY_MS) >= settings.perDay) {
+      return { reason: "day", until: sent[sent.length - settings.perDay] + DAY_MS };
+    }
+    if (settings.perHour > 0 && countSince(t - HOUR_MS) >= settings.perHour) {
+      return { reason: "hour", until: sent[sent.length - settings.perHour] + HOUR_MS };
+    }
+    const last = sent[sent.length - 1];
+    if (last !== undefined && t - last < interval()) {
+      return { reason: "rate", until: last + interval() };
+    }
+    return null;
+  }
+
+  return {
+    async wait(cancelled) {
+      for (;;) {
+        const block = blockedUntil();
+        if (!block) return true;
+        if (cancelled()) return false;
+        // Short naps so pause/stop take effect even during an hour-long wait
+        await new Promise((r) => setTimeout(r, Math.min(block.until - Date.now(), 1000)));
+      }
+    },
+
+    record(delivered) {
+      const t = Date.now();
+      sent.push(t);
+      if (sent[0] < t - DAY_MS) sent = sent.filter((x) => t - x < DAY_MS);
+      jitter = randomBetween(settings.jitterMinMs, settings.jitterMaxMs);
+
+      if (!delivered) return;
+      if (++streak >= RECOVERY_STREAK && factor > 1) {
+        factor = Math.max(1, factor / 2);
+        streak = 0;
+      }
+    },
+
+    reportFlood() {
+      factor = Math.min(MAX_SLOWDOWN, factor * 2);
+      streak = 0;
+    },
+
+    currentRate() {
+      const avgGap = baseInterval() * factor + (settings.jitterMinMs + settings.jitterMaxMs) / 2;
+      let perMinute = avgGap > 0 ? 60_000 / avgGap : Infinity;
+      if (settings.perHour > 0) perMinute = Math.min(perMinute, settings.perHour / 60);
+      if (settings.perDay > 0) perMinute = Math.min(perMinute, settings.perDay / 1440);
+      return perMinute;
+    },
+
+    slowdown() {
+      return factor;
+    },
+
+    // Pace alone, then pushed out by however many whole hours/days the caps require
+    estimateMs(remaining) {
+      if (remaining <= 0) return 0;
+      const avgGap = baseInterval() * factor + (settings.jitterMinMs + settings.jitterMaxMs) / 2;
+      let estimate = avgGap * remaining;
+
+      const t = Date.now();
+      const capWait = (cap: number, windowMs: number) => {
+        if (cap <= 0) return 0;
+        const total = countSince(t - windowMs) + remaining;
+        return Math.ceil(total / cap - 1) * windowMs;
+      };
+      estimate = Math.max(estimate, capWait(settings.perHour, HOUR_MS), capWait(settings.perDay, DAY_MS));
+      return estimate;
+    },
+
+    blockedUntil,
+
+    history() {
+      return [...sent];
+    },
+  };
+}
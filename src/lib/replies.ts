@@ -0,0 +1,88 @@
+import type { Contact, ReadState } from "./contact";
+import { VkApiError, type VkClient } from "./vkApi";
+
+// Follow-up after a run: who has read the message and who has answered. One
+// getConversationsById call covers a hundred dialogs; getHistory is only asked for
+// dialogs where something came after our message.
+
+const CONVERSATIONS_BATCH = 100;
+const HISTORY_COUNT = 20;
+// User tokens get three calls a second
+const CALL_DELAY_MS = 350;
+const SNIPPET_LENGTH = 200;
+
+export interface ReplyStatus {
+  state: ReadState;
+  replyText?: string;
+  repliedAt?: number;
+}
+
+export type ReplyFilter = "all" | "unread" | "unanswered";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Contacts whose message is out there to be read or answered
+export function isTrackable(c: Contact): boolean {
+  return c.status === "sent" && c.messageId !== undefined && !c.deletedAt;
+}
+
+export function matchesReplyFilter(c: Contact, filter: ReplyFilter): boolean {
+  if (filter === "all") return true;
+  if (!isTrackable(c)) return false;
+  if (filter === "unread") return c.readState !== "read" && c.readState !== "replied";
+  return c.readState !== "replied";
+}
+
+// Keyed by contact ID. A contact that already replied is not asked about again.
+export async function fetchReplies(
+  client: VkClient,
+  contacts: Contact[],
+  groupId?: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, ReplyStatus>> {
+  const pending = contacts.filter((c) => isTrackable(c) && c.readState !== "replied");
+  const result = new Map<string, ReplyStatus>();
+
+  for (let i = 0; i < pending.length; i += CONVERSATIONS_BATCH) {
+    const chunk = pending.slice(i, i + CONVERSATIONS_BATCH);
+    if (i > 0) await sleep(CALL_DELAY_MS);
+    const { items } = await client.messagesGetConversationsById({ peerIds: chunk.map((c) => c.vkId), groupId });
+    const byPeer = new Map(items.map((conv) => [String(conv.peer.id), conv]));
+
+    for (const c of chunk) {
+      const conv = byPeer.get(c.vkId);
+      if (!conv) continue;
+      const read = conv.out_read >= c.messageId!;
+      result.set(c.id, { state: read ? "read" : "delivered" });
+      if (conv.last_message_id <= c.messageId!) continue;
+
+      // Something came after our message: either a reply or more messages of our own
+      await sleep(CALL_DELAY_MS);
+      try {
+        const history = await client.messagesGetHistory({ peerId: c.vkId, count: HISTORY_COUNT, groupId });
+        // Newest first, so this is the latest answer
+        const reply = history.items.find((m) => !m.out && m.id > c.messageId!);
+        if (reply) {
+          result.set(c.id, { state: "replied", replyText: reply.text.slice(0, SNIPPET_LENGTH), repliedAt: reply.date * 1000 });
+        }
+      } catch (err) {
+        if (err instanceof VkApiError && (err.kind === "token" || err.kind === "captcha")) throw err;
+      }
+    }
+    onProgress?.(Math.min(i + CONVERSATIONS_BATCH, pending.length), pending.length);
+  }
+  return result;
+}
+
+// Returns the same array when nothing changed, so a quiet poll does not re-render the table
+export function applyReplies(contacts: Contact[], replies: Map<string, ReplyStatus>): Contact[] {
+  let changed = false;
+  const next = contacts.map((c) => {
+    const reply = replies.get(c.id);
+    if (!reply || !isTrackable(c)) return c;
+    if (reply.state === c.readState && reply.replyText === c.replyText) return c;
+    changed = true;
+    return { ...c, readState: reply.state, replyText: reply.replyText, repliedAt: reply.repliedAt };
+  });
+  return changed ? next : contacts;
+}
@@ -0,0 +1,120 @@
+import * as XLSX from "xlsx";
+import type { Contact, ContactStatus, ReadState } from "./contact";
+import { processMessage } from "./template";
+import type { TemplatePicker } from "./variants";
+
+export type ReportFormat = "xlsx" | "csv";
+
+const STATUS_LABELS: Record<ContactStatus, string> = {
+  idle: "Не отправлено",
+  sending: "Отправляется",
+  sent: "Отправлено",
+  error: "Ошибка",
+  skipped: "Пропущено",
+  unavailable: "Недоступен",
+};
+
+const READ_STATE_LABELS: Record<ReadState, string> = {
+  delivered: "Не прочитано",
+  read: "Прочитано",
+  replied: "Ответил(а)",
+};
+
+const REPORT_COLUMNS = [
+  "VK ID",
+  "Вариант",
+  "Текст сообщения",
+  "Вложения",
+  "Статус",
+  "Код ошибки",
+  "Ошибка",
+  "Причина пропуска",
+  "Время отправки",
+  "ID сообщения",
+  "Реакция",
+  "Ответ",
+];
+
+// Contacts from sessions saved before the original row was kept
+function sourceOf(contact: Contact): Record<string, string> {
+  return contact.source ?? { "Имя Фамилия": contact.fullName, "Ссылка ВК": contact.rawLink };
+}
+
+function formatTimestamp(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${pad(d.getDate())}.${pad(d.getMonth() + 1)}.${d.getFullYear()} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+// One row per contact: the imported columns as they were, then what happened to the message.
+// Unsent contacts get the text (and variant) the current template would produce for them.
+export function buildReport(contacts: Contact[], pick: TemplatePicker): string[][] {
+  const titles: string[] = [];
+  for (const c of contacts) {
+    for (const title of Object.keys(sourceOf(c))) {
+      if (!titles.includes(title)) titles.push(title);
+    }
+  }
+
+  const rows = contacts.map((c) => {
+    const source = sourceOf(c);
+    const picked = c.sentText === undefined && c.status !== "sent" ? pick(c) : null;
+    const text = c.sentText ?? (picked?.template ? processMessage(picked.template, c).text : "");
+    return [
+      ...titles.map((t) => source[t] ?? ""),
+      c.vkId === "—" ? "" : c.vkId,
+      c.variant ?? picked?.variant ?? "",
+      text,
+      c.sentAttachment ?? "",
+      c.deletedAt ? "Удалено" : STATUS_LABELS[c.status],
+      c.errorCode !== undefined ? String(c.errorCode) : "",
+      c.status === "error" ? c.errorMsg ?? "" : "",
+      c.status === "skipped" || c.status === "unavailable" ? c.skipReason ?? "" : "",
+      c.sentAt ? formatTimestamp(c.sentAt) : "",
+      c.messageId !== undefined ? String(c.messageId) : "",
+      c.readState ? READ_STATE_LABELS[c.readState] : "",
+      c.replyText ?? "",
+    ];
+  });
+  return [[...titles, ...REPORT_COLUMNS], ...rows];
+}
+
+export function reportFileName(sourceName: string, format: ReportFormat, now = new Date()): string {
+  const base = sourceName.replace(/\.[^.]+$/, "").trim() || "рассылка";
+  const date = formatTimestamp(now.getTime()).slice(0, 10).split(".").reverse().join("-");
+  return `${base} — отчёт ${date}.${format}`;
+}
+
+// Semicolons and a BOM: what Excel with Russian regional settings opens without an import dialog
+export function tableToCsv(rows: string[][]): string {
+  return "\uFEFF" + XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows), { FS: ";" });
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadTable(
+  rows: string[][],
+  format: ReportFormat,
+  fileName: string,
+  sheetName = "Отчёт"
+): void {
+  if (format === "csv") {
+    download(new Blob([tableToCsv(rows)], { type: "text/csv;charset=utf-8" }), fileName);
+    return;
+  }
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet["!cols"] = rows[0].map((title) => ({ wch: title === "Текст сообщения" ? 60 : Math.max(12, title.length + 2) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName);
+  XLSX.writeFile(workbook, fileName, { bookType: "xlsx" });
+}
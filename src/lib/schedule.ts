@@ -0,0 +1,101 @@
+import { createId } from "./contact";
+import { copyExtras, type MessageExtras } from "./sendRun";
+
+// Hours of the day (and days of the week) when messages may go out. A window whose end is
+// before its start runs past midnight: 22:00–02:00 belongs to the day it opens on.
+export interface SendWindow {
+  enabled: boolean;
+  // Minutes since local midnight
+  from: number;
+  to: number;
+  // Allowed days, 0 = Sunday as in Date.getDay()
+  days: number[];
+}
+
+export const DEFAULT_SEND_WINDOW: SendWindow = { enabled: false, from: 10 * 60, to: 20 * 60, days: [1, 2, 3, 4, 5] };
+
+export interface WindowBlock {
+  reason: "window";
+  until: number;
+}
+
+// A run that starts by itself at a set time, with the text as it was when it was scheduled
+export interface ScheduledRun extends MessageExtras {
+  id: string;
+  at: number;
+  template: string;
+  createdAt: number;
+  // Why it could not start when it fell due; it stays in the list until started by hand or cancelled
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function minutesOfDay(d: Date): number {
+  return d.getHours() * 60 + d.getMinutes();
+}
+
+function atMinutes(day: Date, minutes: number): number {
+  const d = new Date(day);
+  d.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return d.getTime();
+}
+
+export function isInWindow(sendWindow: SendWindow, t = Date.now()): boolean {
+  if (!sendWindow.enabled) return true;
+  if (sendWindow.from === sendWindow.to) return sendWindow.days.includes(new Date(t).getDay());
+  const d = new Date(t);
+  const m = minutesOfDay(d);
+  if (sendWindow.from < sendWindow.to) {
+    return sendWindow.days.includes(d.getDay()) && m >= sendWindow.from && m < sendWindow.to;
+  }
+  // Past midnight: the evening part belongs to today, the early hours to yesterday's window
+  if (m >= sendWindow.from) return sendWindow.days.includes(d.getDay());
+  return m < sendWindow.to && sendWindow.days.includes((d.getDay() + 6) % 7);
+}
+
+// When the window next opens, or null if no day is allowed at all
+export function nextWindowOpen(sendWindow: SendWindow, t = Date.now()): number | null {
+  if (isInWindow(sendWindow, t)) return t;
+  if (sendWindow.days.length === 0) return null;
+  for (let i = 0; i <= 7; i++) {
+    const day = new Date(t + i * DAY_MS);
+    const open = atMinutes(day, sendWindow.from);
+    if (open > t && sendWindow.days.includes(day.getDay())) return open;
+  }
+  return null;
+}
+
+export function windowBlock(sendWindow: SendWindow, t = Date.now()): WindowBlock | null {
+  if (isInWindow(sendWindow, t)) return null;
+  const until = nextWindowOpen(sendWindow, t);
+  return until === null ? null : { reason: "window", until };
+}
+
+// Resolves true inside the window; false if cancelled while waiting for it.
+// Reads the window through a getter so edits made mid-run apply at once.
+export async function waitForWindow(getWindow: () => SendWindow, cancelled: () => boolean): Promise<boolean> {
+  for (;;) {
+    const sendWindow = getWindow();
+    if (isInWindow(sendWindow)) return true;
+    if (cancelled()) return false;
+    const until = nextWindowOpen(sendWindow) ?? Date.now() + 60_000;
+    // Short naps, as in the rate limiter, so pause and stop are not held up
+    await new Promise((r) => setTimeout(r, Math.min(Math.max(until - Date.now(), 0), 1000)));
+  }
+}
+
+export function createScheduledRun(at: number, template: string, extras: MessageExtras = {}): ScheduledRun {
+  return { id: createId("plan"), at, template, ...copyExtras(extras), createdAt: Date.now() };
+}
+
+export function parseTime(value: string): number | null {
+  const m = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return Number(m[1]) < 24 && Number(m[2]) < 60 ? minutes : null;
+}
+
+export function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
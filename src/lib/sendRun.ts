@@ -0,0 +1,160 @@
+import { createId } from "./contact";
+import { hashString } from "./hash";
+import type { RateLimiter } from "./rateLimiter";
+import type { TemplateVariant, VariantSplit } from "./variants";
+
+export type RunStatus = "running" | "paused" | "stopped" | "finished";
+
+// What goes out with the text of every message in a run
+export interface MessageExtras {
+  // Keyboard JSON; community runs only
+  keyboard?: string;
+  // Media strings shared by every message
+  attachments?: string[];
+  // Variable whose cell adds attachments of that contact's own
+  attachmentColumn?: string;
+  // A/B test: the variants, the first one being the template itself, and how contacts are split
+  variants?: TemplateVariant[];
+  variantSplit?: VariantSplit;
+}
+
+// Only the extras, whatever else the object carries (a scheduled run passes itself)
+export function copyExtras(extras: MessageExtras): MessageExtras {
+  const { keyboard, attachments, attachmentColumn, variants, variantSplit } = extras;
+  return { keyboard, attachments, attachmentColumn, variants, variantSplit };
+}
+
+// One press of "Отправить всем". Contacts are referenced by ID, so rows edited or
+// removed mid-run are picked up or skipped instead of shifting the queue.
+export interface SendRun extends MessageExtras {
+  id: string;
+  status: RunStatus;
+  template: string;
+  queue: string[];
+  // Index in queue of the next contact to handle; everything before it is done
+  cursor: number;
+  startedAt: number;
+  // Time actually spent sending (pauses excluded) and how many sends it took, for the ETA
+  activeMs: number;
+  handled: number;
+}
+
+export function createRun(template: string, queue: string[], extras: MessageExtras = {}): SendRun {
+  return {
+    id: createId("run"),
+    status: "running",
+    template,
+    ...copyExtras(extras),
+    queue,
+    cursor: 0,
+    startedAt: Date.now(),
+    activeMs: 0,
+    handled: 0,
+  };
+}
+
+// The same contact in the same run always gets the same random_id. VK refuses to
+// deliver a second message with a random_id it has already seen, so re-sending the
+// row that was in flight when the tab died cannot message that person twice.
+export function runRandomId(runId: string, contactId: string): number {
+  return hashString(`${runId}:${contactId}`) % 2147483647 || 1;
+}
+
+export function estimateRemainingMs(run: SendRun, remaining: number): number | null {
+  if (run.handled === 0 || remaining === 0) return null;
+  return (run.activeMs / run.handled) * remaining;
+}
+
+export interface RunControl {
+  readonly state: "running" | "paused" | "stopped";
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  // Waits while paused; resolves false once the run has been stopped
+  checkpoint(): Promise<boolean>;
+}
+
+export function createRunControl(): RunControl {
+  let state: RunControl["state"] = "running";
+  let wake: (() => void) | null = null;
+
+  const release = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    pause() {
+      if (state === "running") state = "paused";
+    },
+    resume() {
+      if (state !== "paused") return;
+      state = "running";
+      release();
+    },
+    stop() {
+      state = "stopped";
+      release();
+    },
+    async checkpoint() {
+      while (state === "paused") {
+        await new Promise<void>((r) => (wake = r));
+      }
+      return state === "running";
+    },
+  };
+}
+
+// "skipped" means the item never reached the API (e.g. its text could not be built)
+export type SendOutcome = "sent" | "failed" | "skipped";
+
+export interface ExecuteRunOptions<T> {
+  control: RunControl;
+  limiter: Pick<RateLimiter, "wait" | "record">;
+  // Holds the run outside the allowed sending hours; resolves false if cancelled meanwhile.
+  // Time spent here is left out of activeMs so the ETA is not thrown off by a night's wait.
+  // Called with cancelled always true, it only says whether sending is allowed right now.
+  gate?: (cancelled: () => boolean) => Promise<boolean>;
+  // Latest version of the item, or undefined if it was removed
+  getItem: (id: string) => T | undefined;
+  shouldSend: (item: T) => boolean;
+  // Throwing aborts the whole run
+  send: (item: T, randomId: number) => Promise<SendOutcome>;
+  onProgress: (update: Pick<SendRun, "cursor" | "activeMs" | "handled">) => void;
+}
+
+// Works through run.queue from run.cursor, honouring pause and stop between sends
+export async function executeRun<T>(run: SendRun, options: ExecuteRunOptions<T>): Promise<"finished" | "stopped"> {
+  const { control, limiter, gate, getItem, shouldSend, send, onProgress } = options;
+  let { activeMs, handled } = run;
+  let cursor = run.cursor;
+
+  while (cursor < run.queue.length) {
+    if (!(await control.checkpoint())) return "stopped";
+    if (gate && !(await gate(() => control.state !== "running"))) continue;
+
+    const started = Date.now();
+    const id = run.queue[cursor];
+    let item = getItem(id);
+    if (item && shouldSend(item)) {
+      // Paused or stopped while waiting for a free slot: go back to the checkpoint
+      if (!(await limiter.wait(() => control.state !== "running"))) continue;
+      // A wait for an hourly or daily cap can run past the end of the sending hours
+      if (gate && !(await gate(() => true))) continue;
+      // The row may have been edited or removed during a long wait
+      item = getItem(id);
+      if (item && shouldSend(item)) {
+        const outcome = await send(item, runRandomId(run.id, id));
+        if (outcome !== "skipped") limiter.record(outcome === "sent");
+        activeMs += Date.now() - started;
+        handled++;
+      }
+    }
+    cursor++;
+    onProgress({ cursor, activeMs, handled });
+  }
+  return "finished";
+}
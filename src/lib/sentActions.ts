@@ -0,0 +1,95 @@
+import type { Contact } from "./contact";
+import { VkApiError, type VkClient } from "./vkApi";
+
+// Fixing or withdrawing messages that have already gone out, using the IDs messages.send returned
+
+export type SentAction = "edit" | "delete";
+
+// VK only lets a message be edited, or deleted for both sides, within a day of sending
+export const SENT_ACTION_WINDOW_MS = 24 * 3600_000;
+const DELETE_BATCH = 100;
+
+export interface SentActionResult {
+  contactId: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface SentActionOptions {
+  // Set in community mode
+  groupId?: number;
+  // Paces the calls; resolves false once the action has been stopped
+  wait: (cancelled: () => boolean) => Promise<boolean>;
+  cancelled: () => boolean;
+  onResult: (result: SentActionResult) => void;
+}
+
+// Why the message to this contact cannot be changed any more, or null if it can
+export function sentActionProblem(contact: Contact, now = Date.now()): string | null {
+  if (contact.status !== "sent") return "Сообщение не отправлено";
+  if (contact.messageId === undefined) return "Нет ID сообщения";
+  if (contact.deletedAt) return "Сообщение уже удалено";
+  if (contact.sentAt && now - contact.sentAt > SENT_ACTION_WINDOW_MS) return "Прошло больше суток с отправки";
+  return null;
+}
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : "Ошибка сети";
+}
+
+// A dead token or an unanswered captcha stops the whole action, as it does a run
+function isFatal(err: unknown): boolean {
+  return err instanceof VkApiError && (err.kind === "token" || err.kind === "captcha");
+}
+
+export async function editSentMessages(
+  client: VkClient,
+  items: { contact: Contact; text: string; keyboard?: string }[],
+  options: SentActionOptions
+): Promise<void> {
+  for (const { contact, text, keyboard } of items) {
+    if (!(await options.wait(options.cancelled))) return;
+    try {
+      await client.messagesEdit({
+        peerId: contact.vkId,
+        messageId: contact.messageId!,
+        message: text,
+        groupId: options.groupId,
+        keyboard,
+        attachment: contact.sentAttachment,
+      });
+      options.onResult({ contactId: contact.id, ok: true });
+    } catch (err) {
+      options.onResult({ contactId: contact.id, ok: false, error: errorText(err) });
+      if (isFatal(err)) throw err;
+    }
+  }
+}
+
+// Deletes for both sides, up to a hundred messages per call
+export async function deleteSentMessages(
+  client: VkClient,
+  contacts: Contact[],
+  options: SentActionOptions
+): Promise<void> {
+  for (let i = 0; i < contacts.length; i += DELETE_BATCH) {
+    if (!(await options.wait(options.cancelled))) return;
+    const chunk = contacts.slice(i, i + DELETE_BATCH);
+    let answer: Record<string, 0 | 1>;
+    try {
+      answer = await client.messagesDelete({
+        messageIds: chunk.map((c) => c.messageId!),
+        deleteForAll: true,
+        groupId: options.groupId,
+      });
+    } catch (err) {
+      for (const c of chunk) options.onResult({ contactId: c.id, ok: false, error: errorText(err) });
+      if (isFatal(err)) throw err;
+      continue;
+    }
+    for (const c of chunk) {
+      const ok = answer[String(c.messageId)] === 1;
+      options.onResult({ contactId: c.id, ok, error: ok ? undefined : "VK не удалил сообщение" });
+    }
+  }
+}
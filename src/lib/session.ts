@@ -0,0 +1,53 @@
+import type { Attachment } from "./attachments";
+import type { CampaignRef } from "./campaigns";
+import type { Contact } from "./contact";
+import { completion, openDb, result, SESSION } from "./db";
+import type { MessageKeyboard } from "./keyboard";
+import type { SendRun } from "./sendRun";
+import { loadJson, removeKey } from "./storage";
+import type { TemplateVariant, VariantSplit } from "./variants";
+
+// The open list, its run and the editor around them, as they were when the tab closed. Kept in
+// IndexedDB: a list of 15 000 rows is some 15 MB, three times what localStorage allows.
+
+export interface Session {
+  message: string;
+  fileName: string;
+  contacts: Contact[];
+  run: SendRun | null;
+  // Absent in sessions saved before keyboards, attachments and A/B variants existed
+  keyboard?: MessageKeyboard | null;
+  attachments?: Attachment[];
+  attachmentColumn?: string;
+  variants?: TemplateVariant[];
+  variantSplit?: VariantSplit;
+  // The history entry this session is kept in; null until a list is loaded
+  campaign?: CampaignRef | null;
+}
+
+// The one record in the session store
+const SESSION_RECORD = "current";
+// Where sessions were kept before, in localStorage; read once and removed after the first save
+const LEGACY_SESSION_KEY = "session";
+
+export async function loadStoredSession(): Promise<Session | null> {
+  try {
+    const db = await openDb();
+    const saved = await result(
+      db.transaction(SESSION).objectStore(SESSION).get(SESSION_RECORD) as IDBRequest<Session | undefined>
+    );
+    if (saved) return saved;
+  } catch {
+    // No IndexedDB (private mode in some browsers): only an older session can be offered
+  }
+  return loadJson<Session>(LEGACY_SESSION_KEY);
+}
+
+// Rejects when the browser refuses to keep it (quota, no IndexedDB)
+export async function storeSession(session: Session): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION, "readwrite");
+  tx.objectStore(SESSION).put(session, SESSION_RECORD);
+  await completion(tx);
+  removeKey(LEGACY_SESSION_KEY);
+}
@@ -0,0 +1,28 @@
+const PREFIX = "vk_messages.";
+
+export function loadJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Returns false when the browser refuses to store it (quota, private mode)
+export function saveJson(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function removeKey(key: string): void {
+  try {
+    localStorage.removeItem(PREFIX + key);
+  } catch {
+    // Nothing to clean up if storage is unavailable
+  }
+}
@@ -0,0 +1,456 @@
+import type { Contact, Gender } from "./contact";
+import {
+  CASE_NAMES,
+  declineFirstName,
+  declineLastName,
+  declinePatronymic,
+  parseCaseName,
+  type DeclineResult,
+  type GrammaticalCase,
+} from "./declension";
+import { hashString } from "./hash";
+
+// Message template language:
+//   {имя}                 variable: built-in or any spreadsheet column, e.g. {город}
+//   {имя|коллега}         variable with a default for empty values
+//   {имя:дат}             name in another grammatical case (род, дат, вин, твор, пред); {имя}, {фамилия}, {фио} only
+//   {М:ся|Ж:ась}          text by the contact's gender (male form when gender is unknown)
+//   {{Привет|Добрый день}} one of the variants, picked per contact (spintax); may be nested
+//   \{  \}  \|  \\        literal characters
+// Branches, variants and defaults may contain further placeholders.
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | {
+      type: "var";
+      name: string;
+      grammaticalCase: GrammaticalCase | null;
+      fallback: TemplateNode[] | null;
+      start: number;
+      end: number;
+    }
+  | { type: "gender"; male: TemplateNode[]; female: TemplateNode[] }
+  | { type: "spin"; variants: TemplateNode[][]; start: number };
+
+export interface TemplateError {
+  message: string;
+  // Position in the template source, for highlighting
+  offset: number;
+  length: number;
+  line: number;
+  column: number;
+}
+
+export interface ParsedTemplate {
+  source: string;
+  nodes: TemplateNode[];
+  error: TemplateError | null;
+}
+
+export const BUILTIN_VARIABLES = ["имя", "фамилия", "фио"] as const;
+
+const GENDER_FORMAT = "{М:значение|Ж:значение}";
+
+// Variables that can take a case modifier
+const DECLINABLE_VARIABLES = new Set<string>(BUILTIN_VARIABLES);
+
+export function normalizeVarName(name: string): string {
+  return name.trim().toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+}
+
+function positionOf(source: string, offset: number): { line: number; column: number } {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+}
+
+class TemplateSyntaxError extends Error {
+  constructor(message: string, readonly offset: number, readonly length: number) {
+    super(message);
+  }
+}
+
+const ESCAPABLE = new Set(["{", "}", "|", "\\"]);
+const MALE_MARKERS = new Set(["М", "м", "M", "m"]);
+const FEMALE_MARKERS = new Set(["Ж", "ж"]);
+
+class Parser {
+  pos = 0;
+
+  constructor(readonly src: string) {}
+
+  // Reads nodes until one of the stop characters (unescaped) or the end of input
+  parseSequence(stops: string): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) nodes.push({ type: "text", value: text });
+      text = "";
+    };
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos];
+      if (ch === "\\" && ESCAPABLE.has(this.src[this.pos + 1])) {
+        text += this.src[this.pos + 1];
+        this.pos += 2;
+        continue;
+      }
+      if (stops.includes(ch)) break;
+      if (ch === "{") {
+        flush();
+        nodes.push(this.parsePlaceholder());
+        continue;
+      }
+      if (ch === "}") {
+        throw new TemplateSyntaxError("Лишняя закрывающая скобка «}». Чтобы вставить её как текст, напишите \\}", this.pos, 1);
+      }
+      text += ch;
+      this.pos++;
+    }
+    flush();
+    return nodes;
+  }
+
+  expect(ch: string, message: string, openedAt: number) {
+    if (this.src[this.pos] !== ch) {
+      const at = this.pos < this.src.length ? this.pos : openedAt;
+      throw new TemplateSyntaxError(message, at, this.pos < this.src.length ? 1 : this.pos - openedAt);
+    }
+    this.pos++;
+  }
+
+  parsePlaceholder(): TemplateNode {
+    const start = this.pos;
+    this.pos++; // {
+
+    if (this.src[this.pos] === "{") return this.parseSpin(start);
+
+    const marker = this.src[this.pos];
+    if ((MALE_MARKERS.has(marker) || FEMALE_MARKERS.has(marker)) && this.src[this.pos + 1] === ":") {
+      return this.parseGender(start);
+    }
+
+    const nameStart = this.pos;
+    while (this.pos < this.src.length && !"{}|:\\\n".includes(this.src[this.pos])) this.pos++;
+    const rawName = this.src.slice(nameStart, this.pos);
+    const name = normalizeVarName(rawName);
+
+    if (this.pos >= this.src.length || this.src[this.pos] === "\n") {
+      throw new TemplateSyntaxError("Плейсхолдер не закрыт: не хватает «}»", start, this.pos - start);
+    }
+    if (!name) {
+      throw new TemplateSyntaxError("Пустое имя переменной", start, this.pos - start + 1);
+    }
+    if (this.src[this.pos] === "{" || this.src[this.pos] === "\\") {
+      throw new TemplateSyntaxError("Недопустимый символ в имени переменной", this.pos, 1);
+    }
+
+    let grammaticalCase: GrammaticalCase | null = null;
+    if (this.src[this.pos] === ":") {
+      grammaticalCase = this.parseCase(rawName, name, start);
+    }
+
+    let fallback: TemplateNode[] | null = null;
+    if (this.src[this.pos] === "|") {
+      this.pos++;
+      fallback = this.parseSequence("}");
+    }
+    this.expect("}", "Плейсхолдер не закрыт: не хватает «}»", start);
+    return { type: "var", name, grammaticalCase, fallback, start, end: this.pos };
+  }
+
+  // The modifier after {имя: — up to the default or the closing brace
+  parseCase(rawName: string, name: string, start: number): GrammaticalCase {
+    this.pos++; // :
+    const caseStart = this.pos;
+    while (this.pos < this.src.length && !"{}|:\\\n".includes(this.src[this.pos])) this.pos++;
+    const raw = this.src.slice(caseStart, this.pos);
+
+    if (!DECLINABLE_VARIABLES.has(name)) {
+      throw new TemplateSyntaxError(
+        `Неизвестный формат «{${rawName}:…}». Падеж можно указать только для {имя}, {фамилия} и {фио}, ` +
+          `а для текста по полу используйте ${GENDER_FORMAT}`,
+        start,
+        this.pos - start + 1
+      );
+    }
+    const grammaticalCase = parseCaseName(raw);
+    if (!grammaticalCase) {
+      throw new TemplateSyntaxError(
+        `Неизвестный падеж «${raw.trim()}». Доступны: им, род, дат, вин, твор, пред`,
+        caseStart,
+        this.pos - caseStart
+      );
+    }
+    if (this.src[this.pos] === ":" || this.src[this.pos] === "{" || this.src[this.pos] === "\\") {
+      throw new TemplateSyntaxError("Недопустимый символ в падеже", this.pos, 1);
+    }
+    return grammaticalCase;
+  }
+
+  parseSpin(start: number): TemplateNode {
+    this.pos++; // second {
+    const variants: TemplateNode[][] = [];
+
+    for (;;) {
+      variants.push(this.parseSequence("|}"));
+      if (this.src[this.pos] === "|") {
+        this.pos++;
+        continue;
+      }
+      if (this.src[this.pos] === "}" && this.src[this.pos + 1] === "}") {
+        this.pos += 2;
+        break;
+      }
+      const closed = this.pos < this.src.length;
+      throw new TemplateSyntaxError(
+        "Варианты не закрыты: не хватает «}}». Формат: {{вариант|вариант}}",
+        closed ? this.pos : start,
+        closed ? 1 : this.pos - start
+      );
+    }
+
+    if (variants.length < 2) {
+      throw new TemplateSyntaxError("Нужно хотя бы два варианта. Формат: {{вариант|вариант}}", start, this.pos - start);
+    }
+    return { type: "spin", variants, start };
+  }
+
+  parseGender(start: number): TemplateNode {
+    const branches: Partial<Record<"male" | "female", TemplateNode[]>> = {};
+
+    for (let i = 0; i < 2; i++) {
+      const markerAt = this.pos;
+      const marker = this.src[this.pos];
+      const key = MALE_MARKERS.has(marker) ? "male" : FEMALE_MARKERS.has(marker) ? "female" : null;
+      if (!key || this.src[this.pos + 1] !== ":") {
+        throw new TemplateSyntaxError(`Ожидается «${i === 0 ? "М:" : "Ж:"}». Формат: ${GENDER_FORMAT}`, markerAt, 1);
+      }
+      if (branches[key]) {
+        throw new TemplateSyntaxError(`Вариант «${marker}:» указан дважды. Формат: ${GENDER_FORMAT}`, markerAt, 2);
+      }
+      this.pos += 2;
+      branches[key] = this.parseSequence(i === 0 ? "|}" : "}|");
+
+      if (i === 0) {
+        if (this.src[this.pos] !== "|") {
+          throw new TemplateSyntaxError(
+            `Не хватает второго варианта. Формат: ${GENDER_FORMAT}`,
+            this.pos < this.src.length ? this.pos : start,
+            this.pos < this.src.length ? 1 : this.pos - start
+          );
+        }
+        this.pos++;
+      } else if (this.src[this.pos] === "|") {
+        throw new TemplateSyntaxError(`Слишком много вариантов. Формат: ${GENDER_FORMAT}`, this.pos, 1);
+      }
+    }
+
+    this.expect("}", `Плейсхолдер не закрыт: не хватает «}». Формат: ${GENDER_FORMAT}`, start);
+    return { type: "gender", male: branches.male ?? [], female: branches.female ?? [] };
+  }
+}
+
+function collectVars(nodes: TemplateNode[], out: Extract<TemplateNode, { type: "var" }>[] = []) {
+  for (const node of nodes) {
+    if (node.type === "var") {
+      out.push(node);
+      if (node.fallback) collectVars(node.fallback, out);
+    } else if (node.type === "gender") {
+      collectVars(node.male, out);
+      collectVars(node.female, out);
+    } else if (node.type === "spin") {
+      for (const v of node.variants) collectVars(v, out);
+    }
+  }
+  return out;
+}
+
+// The cases other than the nominative the template puts variables into, e.g. {имя:дат}
+export function usedCases(nodes: TemplateNode[]): GrammaticalCase[] {
+  const cases = new Set<GrammaticalCase>();
+  for (const v of collectVars(nodes)) {
+    if (v.grammaticalCase && v.grammaticalCase !== "nom") cases.add(v.grammaticalCase);
+  }
+  return [...cases];
+}
+
+// How many different texts the variants ({{…|…}}) can produce for one contact.
+// Gender branches count as whichever side has more; variables as a single value.
+export function countCombinations(nodes: TemplateNode[]): number {
+  let total = 1;
+  for (const node of nodes) {
+    if (node.type === "spin") {
+      total *= node.variants.reduce((sum, v) => sum + countCombinations(v), 0);
+    } else if (node.type === "gender") {
+      total *= Math.max(countCombinations(node.male), countCombinations(node.female));
+    } else if (node.type === "var" && node.fallback) {
+      total *= countCombinations(node.fallback);
+    }
+  }
+  return total;
+}
+
+function makeError(source: string, message: string, offset: number, length: number): TemplateError {
+  return { message, offset, length: Math.max(1, length), ...positionOf(source, offset) };
+}
+
+// knownVars: names that resolve for the loaded contacts; omit to skip the unknown-variable check
+export function parseTemplate(source: string, knownVars?: Iterable<string>): ParsedTemplate {
+  const parser = new Parser(source);
+  let nodes: TemplateNode[];
+  try {
+    nodes = parser.parseSequence("");
+  } catch (err) {
+    if (!(err instanceof TemplateSyntaxError)) throw err;
+    return { source, nodes: [], error: makeError(source, err.message, err.offset, err.length) };
+  }
+
+  if (knownVars) {
+    const known = new Set([...BUILTIN_VARIABLES, ...[...knownVars].map(normalizeVarName)]);
+    const unknown = collectVars(nodes).find((v) => !known.has(v.name));
+    if (unknown) {
+      return {
+        source,
+        nodes,
+        error: makeError(
+          source,
+          `Неизвестная переменная {${unknown.name}}. Доступны: ${[...known].map((k) => `{${k}}`).join(", ")}`,
+          unknown.start,
+          unknown.end - unknown.start
+        ),
+      };
+    }
+  }
+  return { source, nodes, error: null };
+}
+
+export function formatTemplateError(error: TemplateError): string {
+  return `Строка ${error.line}, столбец ${error.column}: ${error.message}`;
+}
+
+export interface RenderContext {
+  vars: Record<string, string>;
+  gender: Gender;
+  // Picks the variants; the same seed always gives the same text, so previews match what is sent
+  seed: string;
+  // Puts a declinable variable into a case; without it case modifiers fail
+  inflect?: (name: string, grammaticalCase: GrammaticalCase) => DeclineResult;
+}
+
+// A placeholder that cannot be filled in for this contact; the whole message is withheld
+class TemplateRenderError extends Error {}
+
+export function renderNodes(nodes: TemplateNode[], ctx: RenderContext): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "var": {
+        const value = ctx.vars[node.name] ?? "";
+        if (!value.trim() && node.fallback) {
+          out += renderNodes(node.fallback, ctx);
+        } else if (node.grammaticalCase && node.grammaticalCase !== "nom" && value.trim()) {
+          const res = ctx.inflect?.(node.name, node.grammaticalCase) ?? { ok: false, reason: "склонение недоступно" };
+          if (!res.ok) {
+            throw new TemplateRenderError(
+              `Не удалось поставить «${value.trim()}» в ${CASE_NAMES[node.grammaticalCase]} падеж ` +
+                `({${node.name}:…}): ${res.reason}`
+            );
+          }
+          out += res.value;
+        } else {
+          out += value;
+        }
+        break;
+      }
+      case "gender":
+        // Male form by default when gender is not set
+        out += renderNodes(ctx.gender === "Ж" ? node.female : node.male, ctx);
+        break;
+      case "spin": {
+        const pick = hashString(`${ctx.seed}:${node.start}`) % node.variants.length;
+        out += renderNodes(node.variants[pick], ctx);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+export function contactVariables(contact: Contact): Record<string, string> {
+  const words = contact.fullName.trim().split(/\s+/);
+  return {
+    ...contact.vars,
+    имя: contact.firstName,
+    фамилия: contact.lastName ?? words.slice(1).join(" "),
+    фио: contact.fullName,
+  };
+}
+
+const sameName = (a: string | undefined, b: string | undefined) =>
+  !!a && !!b && a.trim().toLowerCase().replace(/ё/g, "е") === b.trim().toLowerCase().replace(/ё/g, "е");
+
+// Declines the contact's names. VK's own forms (name_case) are preferred while the name in use
+// is still the one on the VK page; otherwise the local rules decide.
+export function inflectContactVariable(contact: Contact, name: string, c: GrammaticalCase): DeclineResult {
+  const vars = contactVariables(contact);
+  const profile = contact.vkProfile;
+  const vkForms = profile?.cases?.[c];
+
+  const first = (value: string): DeclineResult =>
+    vkForms && sameName(value, profile?.firstName)
+      ? { ok: true, value: vkForms.firstName }
+      : declineFirstName(value, contact.gender, c);
+  const last = (value: string): DeclineResult =>
+    vkForms && sameName(value, profile?.lastName)
+      ? { ok: true, value: vkForms.lastName }
+      : declineLastName(value, contact.gender, c);
+
+  if (name === "имя") return first(vars.имя);
+  if (name === "фамилия") return last(vars.фамилия);
+  if (name !== "фио") return { ok: false, reason: "эту переменную нельзя склонять" };
+
+  // Word by word, recognising each as the first name, the surname or a patronymic
+  const words: string[] = [];
+  for (const word of vars.фио.trim().split(/\s+/)) {
+    const res = sameName(word, vars.имя)
+      ? first(word)
+      : sameName(word, vars.фамилия)
+      ? last(word)
+      : /(ич|на)$/i.test(word)
+      ? declinePatronymic(word, c)
+      : { ok: false as const, reason: `не понятно, что в ФИО означает «${word}»` };
+    if (!res.ok) return res;
+    words.push(res.value);
+  }
+  return { ok: true, value: words.join(" ") };
+}
+
+// Substitute placeholders in the message for a specific contact
+export function processMessage(
+  template: ParsedTemplate,
+  contact: Contact
+): { text: string; error: string | null } {
+  if (template.error) return { text: "", error: formatTemplateError(template.error) };
+  const ctx: RenderContext = {
+    vars: contactVariables(contact),
+    gender: contact.gender,
+    seed: contact.id,
+    inflect: (name, c) => inflectContactVariable(contact, name, c),
+  };
+  try {
+    return { text: renderNodes(template.nodes, ctx), error: null };
+  } catch (err) {
+    if (!(err instanceof TemplateRenderError)) throw err;
+    return { text: "", error: err.message };
+  }
+}
@@ -0,0 +1,49 @@
+import { VkApiError, type VkClient } from "./vkApi";
+
+// Scope bits of account.getAppPermissions and groups.getTokenPermissions that sending relies on.
+// Users and communities share the bit for messages.
+export const MESSAGES_SCOPE = 4096;
+const OFFLINE_SCOPE = 65536;
+
+export interface TokenIdentity {
+  kind: "user" | "group";
+  id: number;
+  name: string;
+  photo?: string;
+  // Scopes sending needs but the token was not given, by name as in the OAuth request
+  missingScopes: string[];
+  // A user token without offline access expires within a day
+  expires: boolean;
+}
+
+// Who the token speaks for and what it lacks. users.get without IDs returns the owner of a
+// user token and nothing for a community token; groups.getById works the other way round.
+export async function identifyToken(client: VkClient): Promise<TokenIdentity> {
+  const [user] = await client.usersGet({ fields: ["photo_50"] }).catch((err) => {
+    if (err instanceof VkApiError && err.code === 5) throw err;
+    return [];
+  });
+  if (user) {
+    const mask = await client.accountGetAppPermissions();
+    return {
+      kind: "user",
+      id: user.id,
+      name: `${user.first_name} ${user.last_name}`.trim(),
+      photo: user.photo_50,
+      missingScopes: mask & MESSAGES_SCOPE ? [] : ["messages"],
+      expires: !(mask & OFFLINE_SCOPE),
+    };
+  }
+
+  const [group] = await client.groupsGetById();
+  if (!group) throw new Error("VK не сообщил, чей это токен");
+  const { mask } = await client.groupsGetTokenPermissions();
+  return {
+    kind: "group",
+    id: group.id,
+    name: group.name,
+    photo: group.photo_50,
+    missingScopes: mask & MESSAGES_SCOPE ? [] : ["messages"],
+    expires: false,
+  };
+}
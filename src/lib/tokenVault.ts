@@ -0,0 +1,74 @@
+import { loadJson, removeKey, saveJson } from "./storage";
+
+// Keeps the token in localStorage encrypted with a passphrase: PBKDF2 turns the passphrase
+// into an AES-GCM key, and GCM's tag tells a wrong passphrase from a right one.
+
+const VAULT_KEY = "savedToken";
+const ITERATIONS = 310_000;
+
+interface SavedToken {
+  salt: string;
+  iv: string;
+  data: string;
+  iterations: number;
+  savedAt: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (ch) => ch.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export function hasSavedToken(): boolean {
+  return loadJson<SavedToken>(VAULT_KEY) !== null;
+}
+
+// Returns false when the browser refuses to store it
+export async function saveToken(token: string, passphrase: string): Promise<boolean> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, ITERATIONS);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(token));
+  return saveJson(VAULT_KEY, {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    iterations: ITERATIONS,
+    savedAt: Date.now(),
+  } satisfies SavedToken);
+}
+
+// The saved token, or null if the passphrase is wrong or nothing is saved
+export async function unlockToken(passphrase: string): Promise<string | null> {
+  const saved = loadJson<SavedToken>(VAULT_KEY);
+  if (!saved) return null;
+  try {
+    const key = await deriveKey(passphrase, fromBase64(saved.salt), saved.iterations);
+    const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(saved.iv) }, key, fromBase64(saved.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    return null;
+  }
+}
+
+export function forgetToken(): void {
+  removeKey(VAULT_KEY);
+}
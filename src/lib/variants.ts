@@ -0,0 +1,160 @@
+import type { Contact } from "./contact";
+import { hashString } from "./hash";
+import type { MessageExtras } from "./sendRun";
+import { formatTemplateError, type ParsedTemplate } from "./template";
+
+// A/B tests: several wordings of one message, each contact getting exactly one of them.
+// The first variant is the main text from the editor; the others are tried against it.
+
+export interface TemplateVariant {
+  name: string;
+  text: string;
+  // Share of the contacts, relative to the other variants' weights
+  weight: number;
+}
+
+export interface VariantSplit {
+  by: "percent" | "column";
+  // Variable whose cell names the variant, when split by column
+  column: string;
+}
+
+export const DEFAULT_VARIANT_SPLIT: VariantSplit = { by: "percent", column: "" };
+export const MAX_VARIANTS = 5;
+const VARIANT_NAMES = ["А", "Б", "В", "Г", "Д"];
+
+export type TemplatePick =
+  | { template: ParsedTemplate; variant?: string; error: null }
+  | { template: null; variant?: undefined; error: string };
+
+export type TemplatePicker = (contact: Contact) => TemplatePick;
+
+export interface VariantResult {
+  name: string;
+  // Contacts the variant went out to or was tried on
+  total: number;
+  sent: number;
+  failed: number;
+  read: number;
+  replied: number;
+}
+
+export function nextVariantName(variants: TemplateVariant[]): string {
+  return VARIANT_NAMES.find((n) => !variants.some((v) => v.name === n)) ?? String(variants.length + 1);
+}
+
+// The texts a run sends: its variants, or its one template as a single unnamed variant
+export function runVariants(run: { template: string } & MessageExtras): TemplateVariant[] {
+  return run.variants && run.variants.length > 0 ? run.variants : [{ name: "", text: run.template, weight: 1 }];
+}
+
+// What stops the variants from being sent, or null. templates are the parsed texts, in the same order.
+export function variantsProblem(
+  variants: TemplateVariant[],
+  templates: ParsedTemplate[],
+  split: VariantSplit
+): string | null {
+  const names = new Set<string>();
+  for (const [i, v] of variants.entries()) {
+    const prefix = v.name ? `Вариант ${v.name}: ` : "";
+    if (variants.length > 1 && !v.name.trim()) return "У каждого варианта должно быть название";
+    if (names.has(v.name.trim().toLowerCase())) return `Два варианта называются «${v.name}»`;
+    names.add(v.name.trim().toLowerCase());
+    if (!v.text.trim()) return `${prefix}Введите текст сообщения`;
+    const error = templates[i]?.error;
+    if (error) return `${prefix}${formatTemplateError(error)}`;
+  }
+  if (variants.length < 2) return null;
+  if (split.by === "column" && !split.column) return "Выберите столбец, в котором указан вариант";
+  if (split.by === "percent" && variants.every((v) => v.weight <= 0)) return "Укажите доли вариантов";
+  return null;
+}
+
+// Splits already made for an ID list, by weights: editing a variant's text re-creates the
+// picker on every keystroke, and sorting a long list each time would stall the editor
+const splitCache = new WeakMap<string[], Map<string, Map<string, number>>>();
+
+// Exact shares of the given contacts. The order is shuffled by a hash of the IDs, so the
+// same list always splits the same way: a resumed run hands out the variants it did before.
+function splitByWeight(ids: string[], variants: TemplateVariant[]): Map<string, number> {
+  const weights = variants.map((v) => Math.max(v.weight, 0));
+  const key = weights.join(",");
+  const cached = splitCache.get(ids)?.get(key);
+  if (cached) return cached;
+  const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+  const hashes = new Map([...new Set(ids)].map((id) => [id, hashString(`variant:${id}`)]));
+  const order = [...hashes.keys()].sort((a, b) => hashes.get(a)! - hashes.get(b)! || a.localeCompare(b));
+  const result = new Map<string, number>();
+  let cumulative = 0;
+  let start = 0;
+  for (const [index, weight] of weights.entries()) {
+    cumulative += weight;
+    const end = index === weights.length - 1 ? order.length : Math.round((cumulative / total) * order.length);
+    for (const id of order.slice(start, end)) result.set(id, index);
+    start = Math.max(start, end);
+  }
+  if (!splitCache.has(ids)) splitCache.set(ids, new Map());
+  splitCache.get(ids)!.set(key, result);
+  return result;
+}
+
+// Contacts outside the split list (e.g. a row sent by hand) get a variant by their own hash
+function variantByHash(id: string, variants: TemplateVariant[]): number {
+  const weights = variants.map((v) => Math.max(v.weight, 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return 0;
+  let point = ((hashString(`variant:${id}`) % 10_000) / 10_000) * total;
+  for (const [index, weight] of weights.entries()) {
+    point -= weight;
+    if (point < 0) return index;
+  }
+  return weights.length - 1;
+}
+
+// Picks each contact's template. ids is the list the shares are counted over: the run's
+// queue, or everyone who would be messaged if the run started now.
+export function createTemplatePicker(
+  variants: TemplateVariant[],
+  templates: ParsedTemplate[],
+  split: VariantSplit,
+  ids: string[]
+): TemplatePicker {
+  if (variants.length === 1) return () => ({ template: templates[0], variant: variants[0].name || undefined, error: null });
+
+  const shares = split.by === "percent" ? splitByWeight(ids, variants) : null;
+  return (contact) => {
+    let index: number;
+    if (shares) {
+      index = shares.get(contact.id) ?? variantByHash(contact.id, variants);
+    } else {
+      const cell = (contact.vars?.[split.column] ?? "").trim();
+      index = variants.findIndex((v) => v.name.trim().toLowerCase() === cell.toLowerCase());
+      if (index < 0) {
+        return { template: null, error: cell ? `Нет варианта «${cell}»` : `Вариант не указан в столбце {${split.column}}` };
+      }
+    }
+    return { template: templates[index], variant: variants[index].name, error: null };
+  };
+}
+
+// Contacts grouped by the variant their message went out with (or failed on), in the order of names;
+// variants from an earlier test that are no longer defined come after them
+export function variantResults(contacts: Contact[], names: string[]): VariantResult[] {
+  const byName = new Map<string, VariantResult>(
+    names.map((name) => [name, { name, total: 0, sent: 0, failed: 0, read: 0, replied: 0 }])
+  );
+  for (const c of contacts) {
+    if (!c.variant) continue;
+    let result = byName.get(c.variant);
+    if (!result) {
+      result = { name: c.variant, total: 0, sent: 0, failed: 0, read: 0, replied: 0 };
+      byName.set(c.variant, result);
+    }
+    result.total++;
+    if (c.status === "sent") result.sent++;
+    if (c.status === "error") result.failed++;
+    if (c.readState === "read" || c.readState === "replied") result.read++;
+    if (c.readState === "replied") result.replied++;
+  }
+  return [...byName.values()];
+}
@@ -0,0 +1,331 @@
+export const VK_API_VERSION = "5.131";
+
+// How a failed call should be treated by whoever made it
+//  - token:     the token is invalid or lacks rights; every further call will fail too
+//  - captcha:   VK wants a captcha answer before repeating the same call
+//  - retryable: temporary trouble on VK's side or too many requests; try again later
+//  - permanent: this particular call will never succeed (privacy, blocked, bad params)
+export type VkErrorKind = "token" | "captcha" | "retryable" | "permanent";
+
+const TOKEN_CODES = new Set([5, 7, 17, 27, 28]);
+// 9 (flood control) usually clears after a pause, like 6
+const RETRYABLE_CODES = new Set([1, 6, 9, 10]);
+
+const KNOWN_ERRORS: Record<number, string> = {
+  5: "Токен недействителен или истёк",
+  6: "Слишком много запросов в секунду",
+  7: "У токена нет прав на это действие",
+  9: "Слишком много однотипных действий",
+  10: "Внутренняя ошибка сервера VK",
+  14: "Требуется ввод капчи",
+  17: "Требуется подтверждение аккаунта",
+  18: "Страница удалена или заблокирована",
+  900: "Пользователь добавил вас в чёрный список",
+  901: "Пользователь запретил сообщения от сообщества",
+  902: "Пользователь ограничил круг тех, кто может ему писать",
+};
+
+export function classifyVkError(code: number): VkErrorKind {
+  if (code === 14) return "captcha";
+  if (TOKEN_CODES.has(code)) return "token";
+  if (RETRYABLE_CODES.has(code)) return "retryable";
+  return "permanent";
+}
+
+export class VkApiError extends Error {
+  readonly code: number;
+  readonly kind: VkErrorKind;
+  readonly method: string;
+  readonly captchaSid?: string;
+  readonly captchaImg?: string;
+
+  constructor(method: string, payload: VkErrorPayload) {
+    const code = Number(payload.error_code) || 0;
+    super(KNOWN_ERRORS[code] ?? (payload.error_msg || "Ошибка API"));
+    this.name = "VkApiError";
+    this.code = code;
+    this.kind = classifyVkError(code);
+    this.method = method;
+    this.captchaSid = payload.captcha_sid;
+    this.captchaImg = payload.captcha_img;
+  }
+}
+
+// The request never got an answer (timeout, blocked script, offline)
+export class VkNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VkNetworkError";
+  }
+}
+
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof VkNetworkError) return true;
+  return err instanceof VkApiError && err.kind === "retryable";
+}
+
+export interface VkErrorPayload {
+  error_code: number;
+  error_msg?: string;
+  captcha_sid?: string;
+  captcha_img?: string;
+}
+
+// Sends one API request and returns the decoded JSON body as is
+export type VkTransport = (method: string, params: Record<string, string>) => Promise<unknown>;
+
+export type VkParams = Record<string, string | number | boolean | undefined>;
+
+export interface VkUser {
+  id: number;
+  first_name: string;
+  last_name: string;
+  screen_name?: string;
+  // "deleted" or "banned"; absent for live pages
+  deactivated?: string;
+  // 1 female, 2 male, 0 not specified
+  sex?: 0 | 1 | 2;
+  is_closed?: boolean;
+  can_access_closed?: boolean;
+  // Whether the token's owner can start a dialog; meaningless for community tokens
+  can_write_private_message?: 0 | 1;
+  photo_50?: string;
+}
+
+export interface VkGroup {
+  id: number;
+  name: string;
+  screen_name: string;
+  photo_50?: string;
+}
+
+export interface VkResolvedScreenName {
+  type: "user" | "group" | "page" | "event" | "application" | "vk_app" | string;
+  object_id: number;
+}
+
+export interface VkTokenPermissions {
+  // Bit mask of the granted scopes; messages is 4096
+  mask: number;
+  permissions: { setting: number; name: string }[];
+}
+
+// Personal tokens write to user_id; communities address the dialog by peer_id and name themselves with group_id
+export interface VkSendMessageParams {
+  userId?: string;
+  peerId?: string;
+  groupId?: number;
+  message: string;
+  randomId: number;
+  // Keyboard JSON; only communities may attach one
+  keyboard?: string;
+  // Comma-separated media: photo-1_2,doc3_4
+  attachment?: string;
+}
+
+export interface VkConversation {
+  peer: { id: number; type: string };
+  // Last incoming message the token's owner has read, and last outgoing one the other side has read
+  in_read: number;
+  out_read: number;
+  last_message_id: number;
+}
+
+export interface VkMessage {
+  id: number;
+  from_id: number;
+  // 1 for messages sent by the token's owner
+  out: 0 | 1;
+  text: string;
+  // Unix time, seconds
+  date: number;
+}
+
+export interface VkEditMessageParams {
+  peerId: string;
+  messageId: number;
+  message: string;
+  groupId?: number;
+  keyboard?: string;
+  // VK drops attachments that are not passed again
+  attachment?: string;
+}
+
+export interface VkClientOptions {
+  token: string;
+  transport: VkTransport;
+  version?: string;
+  // Extra attempts for retryable failures, on top of the first one
+  retries?: number;
+  baseDelayMs?: number;
+  onRetry?: (err: Error, attempt: number, delayMs: number) => void;
+  // Sees every error VK returns, including ones that are retried or answered later
+  onApiError?: (err: VkApiError) => void;
+  // Asked for the answer when VK returns error 14; null gives up and rethrows the error.
+  // Called again with a higher attempt number if the answer turns out to be wrong.
+  onCaptcha?: (err: VkApiError, attempt: number) => Promise<string | null>;
+}
+
+export type VkClient = ReturnType<typeof createVkClient>;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function backoffDelay(err: unknown, attempt: number, baseDelayMs: number): number {
+  // Flood errors need a longer pause than a flaky connection
+  const flood = err instanceof VkApiError && (err.code === 6 || err.code === 9);
+  const base = flood ? baseDelayMs * 4 : baseDelayMs;
+  return base * 2 ** attempt + Math.floor(Math.random() * baseDelayMs);
+}
+
+export function createVkClient(options: VkClientOptions) {
+  const {
+    token,
+    transport,
+    version = VK_API_VERSION,
+    retries = 3,
+    baseDelayMs = 500,
+    onRetry,
+    onApiError,
+    onCaptcha,
+  } = options;
+
+  async function callOnce<T>(method: string, params: VkParams): Promise<T> {
+    const query: Record<string, string> = {};
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) continue;
+      query[key] = typeof value === "boolean" ? (value ? "1" : "0") : String(value);
+    }
+    query.access_token = token;
+    query.v = version;
+
+    const body = (await transport(method, query)) as { response?: T; error?: VkErrorPayload } | null;
+    if (!body || typeof body !== "object") throw new VkNetworkError("Пустой ответ от VK");
+    if (body.error) {
+      const err = new VkApiError(method, body.error);
+      onApiError?.(err);
+      throw err;
+    }
+    return body.response as T;
+  }
+
+  // Calls a method, backing off and repeating it while the failure is retryable.
+  // A captcha is answered through onCaptcha and the very same call is repeated with it.
+  async function call<T>(method: string, params: VkParams = {}): Promise<T> {
+    let current = params;
+    let attempt = 0;
+    let captchaAttempt = 0;
+    for (;;) {
+      try {
+        return await callOnce<T>(method, current);
+      } catch (err) {
+        if (err instanceof VkApiError && err.kind === "captcha" && onCaptcha && err.captchaSid) {
+          const key = await onCaptcha(err, ++captchaAttempt);
+          if (key === null) throw err;
+          current = { ...params, captcha_sid: err.captchaSid, captcha_key: key };
+          continue;
+        }
+        if (!isRetryable(err) || attempt >= retries) throw err;
+        const delay = backoffDelay(err, attempt++, baseDelayMs);
+        onRetry?.(err as Error, attempt, delay);
+        await sleep(delay);
+      }
+    }
+  }
+
+  return {
+    token,
+    version,
+    call,
+
+    // nameCase: nom, gen, dat, acc, ins or abl; names come back declined
+    usersGet(params: { userIds?: string[]; fields?: string[]; nameCase?: string } = {}) {
+      return call<VkUser[]>("users.get", {
+        user_ids: params.userIds?.join(","),
+        fields: params.fields?.join(","),
+        name_case: params.nameCase,
+      });
+    },
+
+    // An unknown name comes back as an empty array
+    async utilsResolveScreenName(screenName: string): Promise<VkResolvedScreenName | null> {
+      const res = await call<VkResolvedScreenName | []>("utils.resolveScreenName", { screen_name: screenName });
+      return Array.isArray(res) ? null : res;
+    },
+
+    // Without group_ids returns the community a community token belongs to; fails for user tokens
+    groupsGetById(params: { groupIds?: string[] } = {}) {
+      return call<VkGroup[]>("groups.getById", { group_ids: params.groupIds?.join(",") });
+    },
+
+    // Bit mask of the scopes granted to a user token
+    accountGetAppPermissions() {
+      return call<number>("account.getAppPermissions");
+    },
+
+    // Scopes of a community token; fails for user tokens
+    groupsGetTokenPermissions() {
+      return call<VkTokenPermissions>("groups.getTokenPermissions");
+    },
+
+    async messagesIsMessagesFromGroupAllowed(params: { groupId: number; userId: string }): Promise<boolean> {
+      const res = await call<{ is_allowed: 0 | 1 }>("messages.isMessagesFromGroupAllowed", {
+        group_id: params.groupId,
+        user_id: params.userId,
+      });
+      return res.is_allowed === 1;
+    },
+
+    // The same random_id makes VK drop a repeated send, so retries cannot double a message
+    messagesSend(params: VkSendMessageParams) {
+      return call<number>("messages.send", {
+        user_id: params.userId,
+        peer_id: params.peerId,
+        group_id: params.groupId,
+        message: params.message,
+        random_id: params.randomId,
+        keyboard: params.keyboard,
+        attachment: params.attachment,
+      });
+    },
+
+    messagesEdit(params: VkEditMessageParams) {
+      return call<1>("messages.edit", {
+        peer_id: params.peerId,
+        message_id: params.messageId,
+        message: params.message,
+        group_id: params.groupId,
+        keyboard: params.keyboard,
+        attachment: params.attachment,
+      });
+    },
+
+    messagesGetConversationsById(params: { peerIds: string[]; groupId?: number }) {
+      return call<{ count: number; items: VkConversation[] }>("messages.getConversationsById", {
+        peer_ids: params.peerIds.join(","),
+        group_id: params.groupId,
+      });
+    },
+
+    // Newest first
+    messagesGetHistory(params: { peerId: string; count?: number; groupId?: number }) {
+      return call<{ count: number; items: VkMessage[] }>("messages.getHistory", {
+        peer_id: params.peerId,
+        count: params.count,
+        group_id: params.groupId,
+      });
+    },
+
+    // Answers with 1 or 0 for every ID; deleteForAll only works within a day of sending
+    messagesDelete(params: { messageIds: number[]; deleteForAll: boolean; groupId?: number }) {
+      return call<Record<string, 0 | 1>>("messages.delete", {
+        message_ids: params.messageIds.join(","),
+        delete_for_all: params.deleteForAll,
+        group_id: params.groupId,
+      });
+    },
+  };
+}
+
+export function randomMessageId(): number {
+  return Math.floor(Math.random() * 2147483647);
+}
@@ -0,0 +1,165 @@
+import type { Contact } from "./contact";
+import { VkApiError, type VkClient } from "./vkApi";
+
+export type ParsedVkLink =
+  | { kind: "id"; id: string }
+  | { kind: "screenName"; screenName: string }
+  | { kind: "rejected"; reason: string };
+
+export type ScreenNameResolution =
+  | { ok: true; id: string }
+  | { ok: false; reason: string };
+
+const VK_HOST = /^(?:https?:\/\/)?(?:www\.|m\.)?(?:vk\.com|vk\.ru|vkontakte\.ru)(?:\/|$)/i;
+const SCREEN_NAME = /^[a-z0-9_.]{2,32}$/i;
+
+// Top-level vk.com paths that are sections of the site rather than profiles
+const RESERVED_PATHS = new Set([
+  "im", "feed", "friends", "groups", "audio", "video", "music", "photos",
+  "docs", "settings", "search", "apps", "games", "market", "away.php",
+  "login", "join", "restore", "support", "services", "bugs", "dev",
+]);
+
+function classifyPath(segment: string): ParsedVkLink {
+  const s = segment.toLowerCase();
+
+  let m = s.match(/^id(\d+)$/);
+  if (m) return { kind: "id", id: m[1] };
+
+  m = s.match(/^write(\d+)$/);
+  if (m) return { kind: "id", id: m[1] };
+
+  if (/^(club|public|event)\d+$/.test(s) || /^-\d+$/.test(s)) {
+    return { kind: "rejected", reason: "Ссылка на сообщество, а не на пользователя" };
+  }
+  if (/^app\d+/.test(s)) {
+    return { kind: "rejected", reason: "Ссылка на приложение, а не на пользователя" };
+  }
+  if (RESERVED_PATHS.has(s)) {
+    return { kind: "rejected", reason: "Ссылка не ведёт на страницу пользователя" };
+  }
+  if (SCREEN_NAME.test(s) && !/^\d+$/.test(s)) {
+    return { kind: "screenName", screenName: s };
+  }
+  return { kind: "rejected", reason: "Не похоже на ссылку VK" };
+}
+
+// Turn whatever is in the spreadsheet cell into a numeric ID or a screen name to resolve
+export function parseVkLink(raw: string): ParsedVkLink {
+  const trimmed = raw.trim();
+  if (!trimmed) return { kind: "rejected", reason: "Пустая ссылка" };
+
+  if (/^\d+$/.test(trimmed)) return { kind: "id", id: trimmed };
+
+  // Wiki-style mention: [id123|Имя] or [club1|Название]
+  const mention = trimmed.match(/^\[([^|\]]+)\|[^\]]*\]$/);
+  if (mention) return classifyPath(mention[1]);
+
+  // @ivan_petrov or *ivan_petrov
+  const at = trimmed.match(/^[@*](.+)$/);
+  if (at) return classifyPath(at[1]);
+
+  if (VK_HOST.test(trimmed)) {
+    const rest = trimmed.replace(VK_HOST, "");
+    const cut = rest.search(/[?#]/);
+    const path = cut === -1 ? rest : rest.slice(0, cut);
+    const query = cut === -1 ? "" : rest.slice(cut + 1);
+    const segment = path.split("/")[0];
+
+    // vk.com/im?sel=123, vk.com/profile.php?id=123
+    const queryId = query.match(/(?:^|&)(?:sel|id)=(\d+)/);
+    if (queryId && (!segment || segment === "im" || segment === "profile.php")) {
+      return { kind: "id", id: queryId[1] };
+    }
+    if (!segment) return { kind: "rejected", reason: "В ссылке нет адреса страницы" };
+    return classifyPath(segment);
+  }
+
+  // A bare screen name without the domain
+  if (!/[\s/]/.test(trimmed)) return classifyPath(trimmed);
+
+  return { kind: "rejected", reason: "Не похоже на ссылку VK" };
+}
+
+const USERS_GET_BATCH = 100;
+const SINGLE_RESOLVE_DELAY_MS = 350;
+
+async function resolveOne(client: VkClient, screenName: string): Promise<ScreenNameResolution> {
+  const obj = await client.utilsResolveScreenName(screenName);
+  if (!obj) return { ok: false, reason: "Страница не найдена" };
+
+  switch (obj.type) {
+    case "user":
+      return { ok: true, id: String(obj.object_id) };
+    case "group":
+    case "page":
+    case "event":
+      return { ok: false, reason: "Ссылка на сообщество, а не на пользователя" };
+    case "application":
+    case "vk_app":
+      return { ok: false, reason: "Ссылка на приложение, а не на пользователя" };
+    default:
+      return { ok: false, reason: "Ссылка не ведёт на страницу пользователя" };
+  }
+}
+
+// A dead token fails every name the same way, so it is not a per-name result
+function isTokenError(err: unknown): boolean {
+  return err instanceof VkApiError && err.kind === "token";
+}
+
+// Resolve screen names in batches through users.get; names it cannot match
+// (communities, apps, old aliases) fall back to utils.resolveScreenName one by one.
+export async function resolveScreenNames(
+  client: VkClient,
+  screenNames: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, ScreenNameResolution>> {
+  const unique = [...new Set(screenNames.map((s) => s.toLowerCase()))];
+  const result = new Map<string, ScreenNameResolution>();
+  const leftovers: string[] = [];
+
+  for (let i = 0; i < unique.length; i += USERS_GET_BATCH) {
+    const chunk = unique.slice(i, i + USERS_GET_BATCH);
+    try {
+      const users = await client.usersGet({ userIds: chunk, fields: ["screen_name"] });
+      for (const u of users) {
+        const name = (u.screen_name ?? "").toLowerCase();
+        if (name && chunk.includes(name)) result.set(name, { ok: true, id: String(u.id) });
+      }
+    } catch (err) {
+      if (isTokenError(err)) throw err;
+      // Otherwise (e.g. every name in the batch is invalid) let the per-name pass sort it out
+    }
+    leftovers.push(...chunk.filter((n) => !result.has(n)));
+    onProgress?.(result.size, unique.length);
+  }
+
+  for (let i = 0; i < leftovers.length; i++) {
+    const name = leftovers[i];
+    try {
+      result.set(name, await resolveOne(client, name));
+    } catch (err) {
+      if (isTokenError(err)) throw err;
+      result.set(name, { ok: false, reason: err instanceof Error ? err.message : "Ошибка сети" });
+    }
+    onProgress?.(result.size, unique.length);
+    if (i < leftovers.length - 1) {
+      await new Promise((r) => setTimeout(r, SINGLE_RESOLVE_DELAY_MS));
+    }
+  }
+
+  return result;
+}
+
+// Fills in the IDs found for short names, or marks the rows whose name led nowhere
+export function applyScreenNames(contacts: Contact[], results: Map<string, ScreenNameResolution>): Contact[] {
+  return contacts.map((c) => {
+    if (!c.screenName || c.vkId !== "—") return c;
+    const res = results.get(c.screenName);
+    if (!res) return c;
+    return res.ok
+      ? { ...c, vkId: res.id, status: "idle" as const, errorMsg: undefined }
+      : { ...c, status: "error" as const, errorMsg: res.reason };
+  });
+}
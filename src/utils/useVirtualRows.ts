@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+
+// Rows rendered above and below the visible ones, so fast scrolling does not show blank space
+const OVERSCAN = 10;
+
+// Renders a long table a slice at a time: only the rows in view of the scroll container (plus a
+// margin) are in the DOM, and spacers of the right height stand in for the rest. Rows start at
+// the estimated height; the real one is measured once from the rows marked data-virtual-row.
+export function useVirtualRows(count: number, estimate: number) {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [first, setFirst] = useState(0);
+  const [viewport, setViewport] = useState(0);
+  const [rowHeight, setRowHeight] = useState(estimate);
+  const measured = useRef(false);
+
+  useEffect(() => {
+    if (!container) return;
+    const onScroll = () => setFirst(Math.floor(container.scrollTop / rowHeight));
+    const observer = new ResizeObserver(() => setViewport(container.clientHeight));
+    onScroll();
+    setViewport(container.clientHeight);
+    container.addEventListener("scroll", onScroll, { passive: true });
+    observer.observe(container);
+    return () => {
+      container.removeEventListener("scroll", onScroll);
+      observer.disconnect();
+    };
+  }, [container, rowHeight]);
+
+  useEffect(() => {
+    if (!container || measured.current) return;
+    const rows = container.querySelectorAll<HTMLElement>("[data-virtual-row]");
+    if (rows.length < 2) return;
+    const last = rows[rows.length - 1];
+    measured.current = true;
+    setRowHeight((last.offsetTop + last.offsetHeight - rows[0].offsetTop) / rows.length);
+  });
+
+  const visible = Math.ceil((viewport || window.innerHeight) / rowHeight);
+  const start = Math.max(0, Math.min(first, count - visible) - OVERSCAN);
+  const end = Math.min(count, first + visible + OVERSCAN);
+  return { ref: setContainer, start, end, before: start * rowHeight, after: (count - end) * rowHeight };
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vite";
+
+// The command-line tool: src/cli bundled for Node, its dependencies loaded from node_modules
+export default defineConfig({
+  build: {
+    ssr: "src/cli/vk-messages.ts",
+    outDir: "dist-cli",
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "vk-messages.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});